@@ -10,67 +10,102 @@ import { MyLibrary } from './components/MyLibrary';
 import { Icon } from './components/common/Icon';
 import { SavedContentProvider } from './contexts/SavedContentContext';
 import { Logo } from './components/common/Logo';
+import { StorageErrorToast } from './components/common/StorageErrorToast';
 import { PromptGenerator } from './components/PromptGenerator';
 import { HeadshotGenerator } from './components/HeadshotGenerator';
+import { VideoGenerator } from './components/VideoGenerator';
+import { VideoEditor } from './components/VideoEditor';
+import { BrandVoiceManager } from './components/BrandVoiceManager';
+import { BrandVoiceProvider } from './contexts/BrandVoiceContext';
+import { VoiceManager } from './components/VoiceManager';
+import { VoiceSettingsProvider } from './contexts/VoiceSettingsContext';
+import { JobProvider } from './contexts/JobContext';
+import { JobTray } from './components/JobTray';
+import { useRoute } from './hooks/useRoute';
+import { ProviderId, getActiveProviderId, setActiveProviderId } from './services/aiProvider';
 
 const App: React.FC = () => {
-  const [activeView, setActiveView] = useState<View>('chat');
+  const { route, navigate } = useRoute();
+  const activeView = route.view;
   const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(false);
+  const [providerId, setProviderId] = useState<ProviderId>(getActiveProviderId);
 
   const renderView = () => {
     switch (activeView) {
       case 'prompt-gen':
         return <PromptGenerator />;
       case 'image-gen':
-        return <ImageGenerator />;
+        return <ImageGenerator rerunItemId={route.params.rerun} handoffId={route.params.handoff} />;
       case 'image-edit':
-        return <ImageEditor />;
+        return <ImageEditor initialItemId={route.params.item} rerunItemId={route.params.rerun} handoffId={route.params.handoff} />;
       case 'headshot-gen':
-        return <HeadshotGenerator />;
+        return <HeadshotGenerator rerunItemId={route.params.rerun} handoffId={route.params.handoff} />;
+      case 'video-gen':
+        return <VideoGenerator rerunItemId={route.params.rerun} handoffId={route.params.handoff} />;
+      case 'video-edit':
+        return <VideoEditor initialItemId={route.params.item} rerunItemId={route.params.rerun} />;
       case 'live-assistant':
         return <LiveAssistant />;
       case 'content-analyzer':
-        return <ContentAnalyzer />;
+        return <ContentAnalyzer rerunItemId={route.params.rerun} handoffId={route.params.handoff} />;
       case 'tts':
-        return <TtsGenerator />;
+        return <TtsGenerator rerunItemId={route.params.rerun} handoffId={route.params.handoff} />;
+      case 'voices':
+        return <VoiceManager />;
+      case 'brand-voice':
+        return <BrandVoiceManager />;
       case 'library':
         return <MyLibrary />;
       case 'chat':
       default:
-        return <AiChat />;
+        return <AiChat handoffId={route.params.handoff} />;
     }
   };
 
   const handleViewChange = useCallback((view: View) => {
-    setActiveView(view);
+    navigate(view);
     setIsSidebarOpen(false);
+  }, [navigate]);
+
+  const handleProviderChange = useCallback((id: ProviderId) => {
+    setActiveProviderId(id);
+    setProviderId(id);
   }, []);
 
   return (
     <SavedContentProvider>
-      <div className="flex h-screen bg-gray-900 text-gray-100 font-sans">
-        <div className={`fixed inset-y-0 left-0 z-30 w-64 bg-gray-800 transition-transform duration-300 ease-in-out md:relative md:translate-x-0 ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full'}`}>
-          <Sidebar activeView={activeView} setActiveView={handleViewChange} />
-        </div>
-        
-        <main className="flex-1 flex flex-col overflow-hidden">
-          <div className="flex items-center justify-between p-4 bg-gray-800 md:hidden sticky top-0 z-20 shadow-md">
-              <h1 className="text-xl font-bold text-white flex items-center gap-2">
-                  <Icon name="logo" className="w-6 h-6 text-red-400" />
-                  <span>
-                    <Logo className="text-xl" />
-                    <span className="text-xl"> Creator AI</span>
-                  </span>
-              </h1>
-              <button onClick={() => setIsSidebarOpen(!isSidebarOpen)} className="p-2 rounded-md text-gray-400 hover:text-white hover:bg-gray-700">
-                  <Icon name="menu" className="w-6 h-6" />
-              </button>
-          </div>
-          <div className="flex-1 overflow-y-auto p-4 md:p-8">
-            {renderView()}
-          </div>
-        </main>
-      </div>
+      <JobProvider>
+        <BrandVoiceProvider>
+          <VoiceSettingsProvider>
+            <div className="flex h-screen bg-gray-900 text-gray-100 font-sans">
+              <div className={`fixed inset-y-0 left-0 z-30 w-64 bg-gray-800 transition-transform duration-300 ease-in-out md:relative md:translate-x-0 ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full'}`}>
+                <Sidebar activeView={activeView} setActiveView={handleViewChange} providerId={providerId} setProviderId={handleProviderChange} />
+              </div>
+          
+              <main className="flex-1 flex flex-col overflow-hidden">
+                <div className="flex items-center justify-between p-4 bg-gray-800 md:hidden sticky top-0 z-20 shadow-md">
+                    <h1 className="text-xl font-bold text-white flex items-center gap-2">
+                        <Icon name="logo" className="w-6 h-6 text-red-400" />
+                        <span>
+                          <Logo className="text-xl" />
+                          <span className="text-xl"> Creator AI</span>
+                        </span>
+                    </h1>
+                    <button onClick={() => setIsSidebarOpen(!isSidebarOpen)} className="p-2 rounded-md text-gray-400 hover:text-white hover:bg-gray-700">
+                        <Icon name="menu" className="w-6 h-6" />
+                    </button>
+                </div>
+                {/* Remount the active tool when the backend changes so no in-flight state leaks across. */}
+                <div key={providerId} className="flex-1 overflow-y-auto p-4 md:p-8">
+                  {renderView()}
+                </div>
+              </main>
+              <JobTray />
+              <StorageErrorToast />
+            </div>
+          </VoiceSettingsProvider>
+        </BrandVoiceProvider>
+      </JobProvider>
     </SavedContentProvider>
   );
 };
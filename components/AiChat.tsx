@@ -1,9 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { getChat } from '../services/geminiService';
-import { ChatMessage } from '../types';
+import { createChatSession, getModelId } from '../services/geminiService';
+import type { ChatSession } from '../services/aiProvider';
+import { ChatMessage, Conversation } from '../types';
+import { useConversations } from '../hooks/useConversations';
+import { useHandoff } from '../hooks/useHandoff';
 import { useSavedContent } from '../contexts/SavedContentContext';
+import { useBrandVoice } from '../contexts/BrandVoiceContext';
+import { getErrorMessage } from '../services/apiErrors';
+import { BrandVoiceSelector } from './common/BrandVoiceSelector';
 import { Spinner } from './common/Spinner';
 import { Icon } from './common/Icon';
+import { SendToMenu } from './common/SendToMenu';
 
 const templates = [
   {
@@ -28,24 +35,68 @@ const templates = [
   },
 ];
 
+const GREETING: ChatMessage = { sender: 'model', text: 'Hello! Welcome to Creator Chat. How can I help you create amazing social media content today? Try selecting a template to get started!' };
 
-export const AiChat: React.FC = () => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { sender: 'model', text: 'Hello! Welcome to Creator Chat. How can I help you create amazing social media content today? Try selecting a template to get started!' }
-  ]);
+// Returns a short excerpt around the first message that matches the search query.
+const findSnippet = (conversation: Conversation, query: string): string | null => {
+  const match = conversation.messages.find(m => m.text.toLowerCase().includes(query));
+  if (!match) return null;
+  const index = match.text.toLowerCase().indexOf(query);
+  const start = Math.max(0, index - 20);
+  return `${start > 0 ? '…' : ''}${match.text.slice(start, index + query.length + 40)}…`;
+};
+
+interface AiChatProps {
+  handoffId?: string; // text sent from another tool, placed in the message box
+}
+
+export const AiChat: React.FC<AiChatProps> = ({ handoffId }) => {
+  const { conversations, activeConversation, setActiveId, createNew, fork, rename, remove, updateMessages } = useConversations();
   const [input, setInput] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
+  const [loadingConversationId, setLoadingConversationId] = useState<string | null>(null);
   const [isTemplatesModalOpen, setIsTemplatesModalOpen] = useState(false);
+  const [isConversationListOpen, setIsConversationListOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [editingMessageIndex, setEditingMessageIndex] = useState<number | null>(null);
+  const [editingMessageText, setEditingMessageText] = useState('');
   const [savedMessages, setSavedMessages] = useState<Set<string>>(new Set());
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  // One live session per thread, created lazily from the stored history the first time it is used.
+  const sessionsRef = useRef<Map<string, ChatSession>>(new Map());
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { saveItem } = useSavedContent();
+  const { activeBrandVoice } = useBrandVoice();
+
+  useHandoff(handoffId, payload => {
+    if (payload.kind === 'text') setInput(payload.text);
+  });
+
+  // Sessions carry the brand voice in their system instruction, so switching voices starts fresh ones.
+  useEffect(() => {
+    sessionsRef.current.clear();
+  }, [activeBrandVoice]);
+
+  const messages = [GREETING, ...activeConversation.messages];
+  const isLoading = loadingConversationId === activeConversation.id;
+  // The reply bubble only appears once the first chunk arrives; until then show a spinner.
+  const isAwaitingFirstChunk = isLoading && messages[messages.length - 1].sender === 'user';
+
+  const query = searchQuery.trim().toLowerCase();
+  const visibleConversations = query
+    ? conversations.filter(c => c.title.toLowerCase().includes(query) || findSnippet(c, query) !== null)
+    : conversations;
 
   useEffect(() => {
     chatContainerRef.current?.scrollTo({ top: chatContainerRef.current.scrollHeight, behavior: 'smooth' });
-  }, [messages]);
+  }, [messages.length, activeConversation.id]);
+
+  // Don't leave a reply streaming into the void after leaving the tool.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
   
   const handleSaveMessage = (messageText: string) => {
-      saveItem({ type: 'text', content: messageText, prompt: 'From Creator Chat' });
+      saveItem({ type: 'text', content: messageText, prompt: 'From Creator Chat', metadata: { tool: 'chat', model: getModelId('general') } });
       setSavedMessages(prev => new Set(prev).add(messageText));
   }
 
@@ -54,31 +105,118 @@ export const AiChat: React.FC = () => {
     setIsTemplatesModalOpen(false);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
+  const handleSelectConversation = (id: string) => {
+    setActiveId(id);
+    setIsConversationListOpen(false);
+  };
 
-    const userMessage: ChatMessage = { sender: 'user', text: input };
-    setMessages(prev => [...prev, userMessage]);
-    setInput('');
-    setIsLoading(true);
+  const handleNewConversation = () => {
+    createNew();
+    setSearchQuery('');
+    setIsConversationListOpen(false);
+  };
 
+  const handleStartRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const handleFinishRename = () => {
+    if (editingId) {
+      rename(editingId, editingTitle);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (!window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) return;
+    sessionsRef.current.delete(conversation.id);
+    remove(conversation.id);
+  };
+
+  const getSession = (conversationId: string, history: ChatMessage[]) => {
+    let session = sessionsRef.current.get(conversationId);
+    if (!session) {
+      session = createChatSession(history, activeBrandVoice);
+      sessionsRef.current.set(conversationId, session);
+    }
+    return session;
+  };
+
+  // Sends `text` on top of `history` and streams the reply into the thread. The
+  // user message must already be in the thread; `history` is everything before it.
+  const streamReply = async (conversationId: string, history: ChatMessage[], text: string) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setLoadingConversationId(conversationId);
+
+    let received = '';
     try {
-      const chat = getChat();
-      const response = await chat.sendMessage({ message: input });
-      const modelMessage: ChatMessage = { sender: 'model', text: response.text };
-      setMessages(prev => [...prev, modelMessage]);
+      const chat = getSession(conversationId, history);
+      for await (const chunk of chat.sendMessageStream(text, controller.signal)) {
+        const isFirstChunk = received === '';
+        received += chunk;
+        const modelMessage: ChatMessage = { sender: 'model', text: received };
+        updateMessages(conversationId, prev => isFirstChunk ? [...prev, modelMessage] : [...prev.slice(0, -1), modelMessage]);
+      }
     } catch (error) {
-      console.error(error);
-      const errorMessage: ChatMessage = { sender: 'model', text: 'Sorry, I encountered an error. Please try again.' };
-      setMessages(prev => [...prev, errorMessage]);
+      // The session's history may now disagree with the thread, so rebuild it on the next send.
+      sessionsRef.current.delete(conversationId);
+      if (!controller.signal.aborted) {
+        console.error(error);
+        const errorMessage: ChatMessage = { sender: 'model', text: getErrorMessage(error, 'Sorry, I encountered an error. Please try again.'), isError: true };
+        updateMessages(conversationId, prev => [...prev, errorMessage]);
+      }
     } finally {
-      setIsLoading(false);
+      abortControllerRef.current = null;
+      setLoadingConversationId(null);
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || loadingConversationId) return;
+
+    const conversation = activeConversation;
+    const userMessage: ChatMessage = { sender: 'user', text: input };
+    setInput('');
+    updateMessages(conversation.id, prev => [...prev, userMessage]);
+    await streamReply(conversation.id, conversation.messages, userMessage.text);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleRegenerate = async () => {
+    const conversation = activeConversation;
+    const lastUserIndex = conversation.messages.map(m => m.sender).lastIndexOf('user');
+    if (lastUserIndex === -1 || loadingConversationId) return;
+
+    const history = conversation.messages.slice(0, lastUserIndex);
+    sessionsRef.current.delete(conversation.id);
+    updateMessages(conversation.id, prev => prev.slice(0, lastUserIndex + 1));
+    await streamReply(conversation.id, history, conversation.messages[lastUserIndex].text);
+  };
+
+  const handleStartEditMessage = (index: number, text: string) => {
+    setEditingMessageIndex(index);
+    setEditingMessageText(text);
+  };
+
+  // Editing an earlier message branches into a new thread so the original stays intact.
+  const handleSubmitEditMessage = async () => {
+    if (editingMessageIndex === null || !editingMessageText.trim() || loadingConversationId) return;
+
+    const history = activeConversation.messages.slice(0, editingMessageIndex);
+    const editedMessage: ChatMessage = { sender: 'user', text: editingMessageText };
+    const branchId = fork(activeConversation, [...history, editedMessage]);
+    setEditingMessageIndex(null);
+    await streamReply(branchId, history, editedMessage.text);
+  };
+
   return (
-    <div className="flex flex-col h-full max-w-4xl mx-auto">
+    <div className="flex h-full max-w-6xl mx-auto gap-4">
       {isTemplatesModalOpen && (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
           <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col">
@@ -98,51 +236,160 @@ export const AiChat: React.FC = () => {
         </div>
       )}
 
-      <h2 className="text-3xl font-bold mb-4 text-red-400">Creator Chat</h2>
-      <p className="mb-6 text-gray-400">
-        Chat with your AI assistant to brainstorm ideas, write captions, or even help you develop a consistent brand voice.
-      </p>
-      <div ref={chatContainerRef} className="flex-1 overflow-y-auto p-4 bg-gray-800 rounded-lg space-y-4 mb-4">
-        {messages.map((msg, index) => (
-          <div key={index} className={`flex items-end gap-2 ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div className={`max-w-lg p-3 rounded-lg ${msg.sender === 'user' ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-200'}`}>
-              <p className="whitespace-pre-wrap">{msg.text}</p>
-            </div>
-             {msg.sender === 'model' && (
-                <button 
-                    onClick={() => handleSaveMessage(msg.text)} 
-                    title={savedMessages.has(msg.text) ? "Saved" : "Save message"}
-                    disabled={savedMessages.has(msg.text)}
-                    className="p-2 text-gray-500 hover:text-white hover:bg-gray-700 rounded-full transition disabled:text-green-400 disabled:cursor-default"
-                >
-                    <Icon name={savedMessages.has(msg.text) ? "check" : "save"} className="w-4 h-4"/>
-                </button>
-            )}
-          </div>
-        ))}
-        {isLoading && (
-          <div className="flex justify-start">
-            <div className="max-w-lg p-3 rounded-lg bg-gray-700 text-gray-200">
-              <Spinner size="sm" />
-            </div>
-          </div>
-        )}
-      </div>
-      <form onSubmit={handleSubmit} className="flex gap-2">
-        <button type="button" onClick={() => setIsTemplatesModalOpen(true)} title="Use a template" className="p-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition">
-            <Icon name="template" className="w-6 h-6"/>
+      <aside className={`${isConversationListOpen ? 'flex' : 'hidden'} md:flex flex-col w-full md:w-64 shrink-0 bg-gray-800 rounded-lg p-3 gap-3`}>
+        <button onClick={handleNewConversation} className="w-full py-2 px-4 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition">
+          + New Conversation
         </button>
         <input
           type="text"
-          value={input}
-          onChange={(e) => setInput(e.target.value)}
-          placeholder="Ask for a post idea about..."
-          className="flex-1 p-3 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search conversations..."
+          className="w-full p-2 text-sm bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition"
         />
-        <button type="submit" disabled={isLoading} className="p-3 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition disabled:bg-red-400">
-            <Icon name="send" className="w-6 h-6"/>
-        </button>
-      </form>
+        <div className="flex-1 overflow-y-auto space-y-1">
+          {visibleConversations.map(conversation => (
+            <div
+              key={conversation.id}
+              onClick={() => handleSelectConversation(conversation.id)}
+              className={`group p-2 rounded-lg cursor-pointer transition ${conversation.id === activeConversation.id ? 'bg-gray-700' : 'hover:bg-gray-700/50'}`}
+            >
+              {editingId === conversation.id ? (
+                <input
+                  autoFocus
+                  value={editingTitle}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  onBlur={handleFinishRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleFinishRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full p-1 text-sm bg-gray-900 border border-gray-600 rounded"
+                />
+              ) : (
+                <div className="flex items-center gap-1">
+                  <p className="flex-1 text-sm text-gray-200 truncate" title={conversation.title}>{conversation.title}</p>
+                  <button onClick={(e) => { e.stopPropagation(); handleStartRename(conversation); }} title="Rename" className="p-1 text-gray-500 hover:text-white opacity-0 group-hover:opacity-100 transition">
+                    <Icon name="edit" className="w-3 h-3"/>
+                  </button>
+                  <button onClick={(e) => { e.stopPropagation(); handleDelete(conversation); }} title="Delete" className="p-1 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition">
+                    <Icon name="trash" className="w-3 h-3"/>
+                  </button>
+                </div>
+              )}
+              {query && findSnippet(conversation, query) && (
+                <p className="text-xs text-gray-400 truncate mt-1">{findSnippet(conversation, query)}</p>
+              )}
+            </div>
+          ))}
+          {visibleConversations.length === 0 && <p className="text-sm text-gray-500 p-2">No conversations match "{searchQuery}".</p>}
+        </div>
+      </aside>
+
+      <div className={`${isConversationListOpen ? 'hidden' : 'flex'} md:flex flex-col flex-1 min-w-0`}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-3xl font-bold text-red-400">Creator Chat</h2>
+          <BrandVoiceSelector className="hidden md:flex" />
+          <button onClick={() => setIsConversationListOpen(true)} className="md:hidden py-2 px-3 bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold rounded-lg transition">
+            Conversations
+          </button>
+        </div>
+        <p className="mb-6 text-gray-400">
+          Chat with your AI assistant to brainstorm ideas, write captions, or even help you develop a consistent brand voice.
+        </p>
+        <BrandVoiceSelector className="md:hidden mb-4" />
+        <div ref={chatContainerRef} className="flex-1 overflow-y-auto p-4 bg-gray-800 rounded-lg space-y-4 mb-4">
+          {messages.map((msg, index) => {
+            // Index 0 is the greeting, so thread positions are offset by one.
+            const threadIndex = index - 1;
+            const isLastMessage = index === messages.length - 1;
+            const isEditing = editingMessageIndex === threadIndex;
+            return (
+            <div key={index} className={`group flex items-end gap-2 ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+              {msg.sender === 'user' && !isEditing && !loadingConversationId && (
+                  <button
+                      onClick={() => handleStartEditMessage(threadIndex, msg.text)}
+                      title="Edit and branch from here"
+                      className="p-2 text-gray-500 hover:text-white hover:bg-gray-700 rounded-full transition opacity-0 group-hover:opacity-100"
+                  >
+                      <Icon name="edit" className="w-4 h-4"/>
+                  </button>
+              )}
+              <div className={`max-w-lg p-3 rounded-lg ${msg.sender === 'user' ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-200'} ${isEditing ? 'w-full' : ''}`}>
+                {isEditing ? (
+                  <div className="space-y-2">
+                    <textarea
+                      autoFocus
+                      value={editingMessageText}
+                      onChange={(e) => setEditingMessageText(e.target.value)}
+                      rows={3}
+                      className="w-full p-2 text-gray-100 bg-red-800 border border-red-400 rounded"
+                    />
+                    <div className="flex justify-end gap-2 text-sm">
+                      <button onClick={() => setEditingMessageIndex(null)} className="py-1 px-3 rounded hover:bg-red-700">Cancel</button>
+                      <button onClick={handleSubmitEditMessage} className="py-1 px-3 bg-white text-red-700 font-semibold rounded hover:bg-gray-100">Branch &amp; Send</button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="whitespace-pre-wrap">{msg.text}</p>
+                )}
+              </div>
+               {msg.sender === 'model' && isLastMessage && index > 0 && !loadingConversationId && (
+                  <button
+                      onClick={handleRegenerate}
+                      title="Regenerate response"
+                      className="p-2 text-gray-500 hover:text-white hover:bg-gray-700 rounded-full transition"
+                  >
+                      <Icon name="refresh" className="w-4 h-4"/>
+                  </button>
+              )}
+               {msg.sender === 'model' && !msg.isError && (
+                  <button 
+                      onClick={() => handleSaveMessage(msg.text)} 
+                      title={savedMessages.has(msg.text) ? "Saved" : "Save message"}
+                      disabled={savedMessages.has(msg.text)}
+                      className="p-2 text-gray-500 hover:text-white hover:bg-gray-700 rounded-full transition disabled:text-green-400 disabled:cursor-default"
+                  >
+                      <Icon name={savedMessages.has(msg.text) ? "check" : "save"} className="w-4 h-4"/>
+                  </button>
+              )}
+               {msg.sender === 'model' && !msg.isError && index > 0 && (
+                  <SendToMenu kind="text" exclude="chat" getPayload={() => ({ kind: 'text', text: msg.text })} className="opacity-0 group-hover:opacity-100 focus:opacity-100" />
+              )}
+            </div>
+            );
+          })}
+          {isAwaitingFirstChunk && (
+            <div className="flex justify-start">
+              <div className="max-w-lg p-3 rounded-lg bg-gray-700 text-gray-200">
+                <Spinner size="sm" />
+              </div>
+            </div>
+          )}
+        </div>
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <button type="button" onClick={() => setIsTemplatesModalOpen(true)} title="Use a template" className="p-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition">
+              <Icon name="template" className="w-6 h-6"/>
+          </button>
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Ask for a post idea about..."
+            className="flex-1 min-w-0 p-3 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition"
+          />
+          {isLoading ? (
+            <button type="button" onClick={handleStop} title="Stop generating" className="p-3 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition">
+                <Icon name="stop" className="w-6 h-6"/>
+            </button>
+          ) : (
+            <button type="submit" disabled={!!loadingConversationId} className="p-3 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition disabled:bg-red-400">
+                <Icon name="send" className="w-6 h-6"/>
+            </button>
+          )}
+        </form>
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,253 @@
+import React, { useState, useRef } from 'react';
+import { trainBrandVoice } from '../services/geminiService';
+import { useBrandVoice, BrandVoiceDraft } from '../contexts/BrandVoiceContext';
+import { BrandVoice } from '../types';
+import { Spinner } from './common/Spinner';
+import { Icon } from './common/Icon';
+import { getErrorMessage } from '../services/apiErrors';
+
+const MAX_EXAMPLE_POSTS = 10;
+
+interface FormState {
+    name: string;
+    tone: string;
+    audience: string;
+    bannedWords: string;
+    hashtags: string;
+    examplePosts: string;
+}
+
+const emptyForm: FormState = { name: '', tone: '', audience: '', bannedWords: '', hashtags: '', examplePosts: '' };
+
+const toForm = (voice: BrandVoice): FormState => ({
+    name: voice.name,
+    tone: voice.tone,
+    audience: voice.audience,
+    bannedWords: voice.bannedWords.join(', '),
+    hashtags: voice.hashtags.map(tag => `#${tag}`).join(' '),
+    examplePosts: voice.examplePosts.join('\n\n'),
+});
+
+const splitList = (value: string) => value.split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+
+const splitHashtags = (value: string) =>
+    Array.from(new Set(value.split(/[\s,]+/).map(tag => tag.replace(/^#/, '').trim().toLowerCase()).filter(Boolean)));
+
+// Samples are separated by blank lines; a file without blank lines is treated as one caption per line.
+const splitSamples = (text: string): string[] => {
+    const blocks = text.split(/\n\s*\n/).map(block => block.trim()).filter(Boolean);
+    if (blocks.length > 1) return blocks;
+    return text.split('\n').map(line => line.trim().replace(/^"(.*)"$/, '$1')).filter(Boolean);
+};
+
+const parseSampleFile = (fileName: string, content: string): string[] => {
+    if (fileName.toLowerCase().endsWith('.json')) {
+        const parsed = JSON.parse(content);
+        if (!Array.isArray(parsed)) throw new Error('Expected a JSON array of captions.');
+        return parsed.map(String).map(caption => caption.trim()).filter(Boolean);
+    }
+    return splitSamples(content);
+};
+
+const toDraft = (form: FormState): BrandVoiceDraft => ({
+    name: form.name.trim(),
+    tone: form.tone.trim(),
+    audience: form.audience.trim(),
+    bannedWords: splitList(form.bannedWords),
+    hashtags: splitHashtags(form.hashtags),
+    examplePosts: splitSamples(form.examplePosts).slice(0, MAX_EXAMPLE_POSTS),
+});
+
+export const BrandVoiceManager: React.FC = () => {
+    const { brandVoices, activeBrandVoice, setActiveBrandVoiceId, createBrandVoice, updateBrandVoice, deleteBrandVoice } = useBrandVoice();
+    const [selectedId, setSelectedId] = useState<string | null>(brandVoices[0]?.id ?? null);
+    const [form, setForm] = useState<FormState>(brandVoices[0] ? toForm(brandVoices[0]) : emptyForm);
+    const [samples, setSamples] = useState('');
+    const [isTraining, setIsTraining] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaved, setIsSaved] = useState(false);
+    const sampleFileInputRef = useRef<HTMLInputElement>(null);
+
+    // Loads a profile into the form; saving keeps the form as typed.
+    const selectProfile = (id: string | null) => {
+        const selected = brandVoices.find(voice => voice.id === id);
+        setSelectedId(id);
+        setForm(selected ? toForm(selected) : emptyForm);
+        setError(null);
+    };
+
+    const updateField = (field: keyof FormState) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        setForm(prev => ({ ...prev, [field]: e.target.value }));
+    };
+
+    const handleNew = () => {
+        selectProfile(null);
+        setSamples('');
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        const draft = toDraft(form);
+        if (!draft.name) {
+            setError('Please give this brand voice a name.');
+            return;
+        }
+        if (selectedId) {
+            updateBrandVoice(selectedId, draft);
+        } else {
+            setSelectedId(createBrandVoice(draft).id);
+        }
+        setError(null);
+        setIsSaved(true);
+        setTimeout(() => setIsSaved(false), 2000);
+    };
+
+    const handleDelete = () => {
+        if (!selectedId) return;
+        const voice = brandVoices.find(v => v.id === selectedId);
+        if (!window.confirm(`Delete the "${voice?.name}" brand voice?`)) return;
+        deleteBrandVoice(selectedId);
+        selectProfile(null);
+    };
+
+    const handleImportSamples = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (event) => {
+            try {
+                const imported = parseSampleFile(file.name, event.target?.result as string);
+                setSamples(prev => [prev.trim(), ...imported].filter(Boolean).join('\n\n'));
+                setError(null);
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Could not read that file.');
+            }
+        };
+        reader.readAsText(file);
+        e.target.value = '';
+    };
+
+    const handleTrain = async () => {
+        const sampleList = splitSamples(samples);
+        if (sampleList.length === 0) {
+            setError('Paste or import at least one sample caption.');
+            return;
+        }
+        setIsTraining(true);
+        setError(null);
+        try {
+            const learned = await trainBrandVoice(sampleList);
+            setForm(prev => ({
+                ...prev,
+                tone: learned.tone,
+                audience: learned.audience,
+                hashtags: splitHashtags(`${prev.hashtags} ${learned.hashtags.join(' ')}`).map(tag => `#${tag}`).join(' '),
+                examplePosts: [...splitSamples(prev.examplePosts), ...sampleList].slice(0, MAX_EXAMPLE_POSTS).join('\n\n'),
+            }));
+            setSamples('');
+        } catch (err) {
+            setError(getErrorMessage(err, 'An unknown error occurred during training.'));
+        } finally {
+            setIsTraining(false);
+        }
+    };
+
+    return (
+        <div className="max-w-6xl mx-auto">
+            <h2 className="text-3xl font-bold mb-6 text-red-400">Brand Voice</h2>
+            <p className="mb-6 text-gray-400">
+                Teach the AI how you sound. Brand voice profiles are used by Creator Chat, the Live Assistant, the Prompt Generator and the Content Analyzer whenever one is selected.
+            </p>
+
+            <div className="grid lg:grid-cols-3 gap-8">
+                <div className="lg:col-span-1 space-y-2">
+                    <button onClick={handleNew} className="w-full py-2 px-4 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition">
+                        + New Profile
+                    </button>
+                    {brandVoices.map(voice => (
+                        <button
+                            key={voice.id}
+                            onClick={() => selectProfile(voice.id)}
+                            className={`w-full flex items-center justify-between p-3 text-left rounded-lg transition ${voice.id === selectedId ? 'bg-gray-700' : 'bg-gray-800 hover:bg-gray-700/50'}`}
+                        >
+                            <span className="truncate">{voice.name}</span>
+                            {voice.id === activeBrandVoice?.id && <span className="text-xs text-green-400">Active</span>}
+                        </button>
+                    ))}
+                    {brandVoices.length === 0 && <p className="text-sm text-gray-500 p-2">No profiles yet. Create one to get started.</p>}
+                </div>
+
+                <div className="lg:col-span-2 space-y-6">
+                    <div className="p-4 bg-gray-800 border border-gray-700 rounded-lg">
+                        <h3 className="text-lg font-semibold mb-3 text-red-400">Train From Samples</h3>
+                        <p className="text-sm text-gray-400 mb-3">Paste a few of your past captions (separated by blank lines) or import a .txt, .csv or .json file. The AI will fill in the tone, audience and hashtags below.</p>
+                        <textarea
+                            value={samples}
+                            onChange={(e) => setSamples(e.target.value)}
+                            placeholder="Paste sample captions here..."
+                            className="w-full p-3 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition"
+                            rows={5}
+                        />
+                        <div className="flex flex-col sm:flex-row gap-3 mt-3">
+                            <button type="button" onClick={() => sampleFileInputRef.current?.click()} className="flex-grow py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition">
+                                <Icon name="upload" className="w-5 h-5 mr-2 inline-block" />
+                                Import Captions
+                            </button>
+                            <input type="file" ref={sampleFileInputRef} onChange={handleImportSamples} accept=".txt,.csv,.json,.md,text/plain" className="hidden" />
+                            <button type="button" onClick={handleTrain} disabled={isTraining} className="flex justify-center items-center py-2 px-4 bg-black hover:bg-gray-800 border border-gray-600 text-white font-semibold rounded-lg transition disabled:bg-gray-900 disabled:text-gray-500">
+                                {isTraining ? <Spinner size="sm" /> : 'Learn From Samples'}
+                            </button>
+                        </div>
+                    </div>
+
+                    <form onSubmit={handleSave} className="p-6 bg-gray-800 border border-gray-700 rounded-lg space-y-4">
+                        <div>
+                            <label htmlFor="voiceName" className="block text-sm font-medium text-gray-300 mb-2">Profile Name</label>
+                            <input id="voiceName" type="text" value={form.name} onChange={updateField('name')} placeholder="e.g., Cozy Café Owner" className="w-full p-3 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition" />
+                        </div>
+                        <div className="grid md:grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="voiceTone" className="block text-sm font-medium text-gray-300 mb-2">Tone</label>
+                                <input id="voiceTone" type="text" value={form.tone} onChange={updateField('tone')} placeholder="e.g., warm, witty, lots of emoji" className="w-full p-3 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition" />
+                            </div>
+                            <div>
+                                <label htmlFor="voiceAudience" className="block text-sm font-medium text-gray-300 mb-2">Audience</label>
+                                <input id="voiceAudience" type="text" value={form.audience} onChange={updateField('audience')} placeholder="e.g., busy young professionals" className="w-full p-3 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition" />
+                            </div>
+                            <div>
+                                <label htmlFor="voiceBannedWords" className="block text-sm font-medium text-gray-300 mb-2">Banned Words</label>
+                                <input id="voiceBannedWords" type="text" value={form.bannedWords} onChange={updateField('bannedWords')} placeholder="Comma separated" className="w-full p-3 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition" />
+                            </div>
+                            <div>
+                                <label htmlFor="voiceHashtags" className="block text-sm font-medium text-gray-300 mb-2">Preferred Hashtags</label>
+                                <input id="voiceHashtags" type="text" value={form.hashtags} onChange={updateField('hashtags')} placeholder="#coffee #smallbusiness" className="w-full p-3 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition" />
+                            </div>
+                        </div>
+                        <div>
+                            <label htmlFor="voiceExamples" className="block text-sm font-medium text-gray-300 mb-2">Example Posts (up to {MAX_EXAMPLE_POSTS}, separated by blank lines)</label>
+                            <textarea id="voiceExamples" value={form.examplePosts} onChange={updateField('examplePosts')} rows={8} className="w-full p-3 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition" />
+                        </div>
+                        {error && <div className="p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-lg">{error}</div>}
+                        <div className="flex flex-wrap items-center gap-2">
+                            <button type="submit" disabled={isSaved} className="flex items-center gap-2 py-2 px-4 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition disabled:bg-green-600">
+                                <Icon name={isSaved ? "check" : "save"} className="w-5 h-5" />
+                                {isSaved ? 'Saved!' : 'Save Profile'}
+                            </button>
+                            {selectedId && (
+                                <button type="button" onClick={() => setActiveBrandVoiceId(selectedId === activeBrandVoice?.id ? null : selectedId)} className="py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition">
+                                    {selectedId === activeBrandVoice?.id ? 'Stop Using' : 'Use This Voice'}
+                                </button>
+                            )}
+                            <div className="flex-grow"></div>
+                            {selectedId && (
+                                <button type="button" onClick={handleDelete} title="Delete Profile" className="p-2 text-red-500 hover:text-red-400 hover:bg-gray-700 rounded-full transition">
+                                    <Icon name="trash" className="w-5 h-5"/>
+                                </button>
+                            )}
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,14 +1,27 @@
 import React, { useState, useRef } from 'react';
-import { getFastResponse, getAdvancedResponse, getGroundedResponse, analyzeImage } from '../services/geminiService';
+import { getFastResponse, getAdvancedResponse, getGroundedResponse, analyzeImage, getModelId } from '../services/geminiService';
 import { fileToBase64 } from '../utils/fileUtils';
-import { GroundingChunk } from '../types';
+import { GenerationMetadata, GroundingChunk } from '../types';
 import { useSavedContent } from '../contexts/SavedContentContext';
 import { Spinner } from './common/Spinner';
 import { Icon } from './common/Icon';
+import { BrandVoiceSelector } from './common/BrandVoiceSelector';
+import { useBrandVoice } from '../contexts/BrandVoiceContext';
+import { getErrorMessage } from '../services/apiErrors';
+import { useRerunItem } from '../hooks/useRerunItem';
+import { useHandoff } from '../hooks/useHandoff';
+import { SendToMenu } from './common/SendToMenu';
 
 type AnalysisType = 'fast' | 'advanced' | 'grounded';
 
-export const ContentAnalyzer: React.FC = () => {
+const analysisModelRoles = { fast: 'fast', advanced: 'advanced', grounded: 'general' } as const;
+
+interface ContentAnalyzerProps {
+  rerunItemId?: string; // library item whose prompt and analysis type pre-fill the form
+  handoffId?: string; // image sent from another tool
+}
+
+export const ContentAnalyzer: React.FC<ContentAnalyzerProps> = ({ rerunItemId, handoffId }) => {
   const [prompt, setPrompt] = useState('');
   const [analysisType, setAnalysisType] = useState<AnalysisType>('fast');
   const [result, setResult] = useState<string | null>(null);
@@ -16,17 +29,38 @@ export const ContentAnalyzer: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSaved, setIsSaved] = useState(false);
+  const [resultMetadata, setResultMetadata] = useState<GenerationMetadata | null>(null);
   const { saveItem } = useSavedContent();
+  const { activeBrandVoice } = useBrandVoice();
 
   const [file, setFile] = useState<File | null>(null);
   const [filePreview, setFilePreview] = useState<string | null>(null); // For image previews
+  const [fileItemId, setFileItemId] = useState<string | null>(null); // set when the image came from the library
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useRerunItem(rerunItemId, item => {
+    setPrompt(item.prompt);
+    const type = item.metadata?.analysisType;
+    if (type === 'fast' || type === 'advanced' || type === 'grounded') setAnalysisType(type);
+  });
+
+  useHandoff(handoffId, payload => {
+    if (payload.kind !== 'image') return;
+    setFile(payload.file);
+    setFileItemId(payload.itemId ?? null);
+    setFilePreview(URL.createObjectURL(payload.file));
+    setPrompt('');
+    setResult(null);
+    setError(null);
+    setSources([]);
+  });
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (!selectedFile) return;
 
     setFile(selectedFile);
+    setFileItemId(null);
     setResult(null);
     setError(null);
     setSources([]);
@@ -51,6 +85,7 @@ export const ContentAnalyzer: React.FC = () => {
 
   const handleClearFile = () => {
     setFile(null);
+    setFileItemId(null);
     setFilePreview(null);
     setPrompt('');
     if (fileInputRef.current) {
@@ -73,10 +108,11 @@ export const ContentAnalyzer: React.FC = () => {
       }
       try {
         const base64 = await fileToBase64(file);
-        const resultText = await analyzeImage(prompt, base64, file.type);
+        const resultText = await analyzeImage(prompt, base64, file.type, activeBrandVoice);
         setResult(resultText);
+        setResultMetadata({ tool: 'content-analyzer', model: getModelId('general'), analysisType: 'image', inputs: [fileItemId ? { itemId: fileItemId, name: file.name } : { name: file.name }] });
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        setError(getErrorMessage(err, 'An unknown error occurred.'));
       } finally {
         setIsLoading(false);
       }
@@ -90,31 +126,39 @@ export const ContentAnalyzer: React.FC = () => {
         let response;
         switch (analysisType) {
           case 'grounded':
-            response = await getGroundedResponse(prompt);
+            response = await getGroundedResponse(prompt, activeBrandVoice);
             setResult(response.text);
-            setSources(response.candidates?.[0]?.groundingMetadata?.groundingChunks || []);
+            setSources(response.sources);
             break;
           case 'advanced':
-            response = await getAdvancedResponse(prompt);
+            response = await getAdvancedResponse(prompt, activeBrandVoice);
             setResult(response);
             break;
           case 'fast':
           default:
-            response = await getFastResponse(prompt);
+            response = await getFastResponse(prompt, activeBrandVoice);
             setResult(response);
             break;
         }
+        setResultMetadata({
+          tool: 'content-analyzer',
+          model: getModelId(analysisModelRoles[analysisType]),
+          analysisType,
+          ...(file && { inputs: [{ name: file.name }] }),
+        });
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        setError(getErrorMessage(err, 'An unknown error occurred.'));
       } finally {
         setIsLoading(false);
       }
     }
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (result) {
-      saveItem({ type: 'text', content: result, prompt });
+      const parentId = resultMetadata?.inputs?.find(input => input.itemId)?.itemId;
+      const saved = await saveItem({ type: 'text', content: result, prompt, ...(resultMetadata && { metadata: resultMetadata }), ...(parentId && { parentId }) });
+      if (!saved) return;
       setIsSaved(true);
       setTimeout(() => setIsSaved(false), 2000);
     }
@@ -126,6 +170,7 @@ export const ContentAnalyzer: React.FC = () => {
       <p className="mb-6 text-gray-400">
         Upload an image or text file, or paste your content to get suggestions, check for trending topics, or perform deep analysis. Use "Fast" for quick edits, "Advanced" for in-depth feedback, and "Search Grounded" for up-to-date information.
       </p>
+      <BrandVoiceSelector className="mb-4" />
 
       <div className="mb-4">
         <div
@@ -201,14 +246,17 @@ export const ContentAnalyzer: React.FC = () => {
         <div className="mt-8">
           <div className="flex justify-between items-center mb-4">
             <h3 className="text-xl font-semibold">Analysis Result</h3>
-            <button
-              onClick={handleSave}
-              disabled={isSaved}
-              className="flex items-center gap-2 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition disabled:bg-green-600"
-            >
-              <Icon name={isSaved ? "check" : "save"} className="w-5 h-5" />
-              {isSaved ? 'Saved!' : 'Save Result'}
-            </button>
+            <div className="flex items-center gap-2">
+              <SendToMenu kind="text" getPayload={() => ({ kind: 'text', text: result })} />
+              <button
+                onClick={handleSave}
+                disabled={isSaved}
+                className="flex items-center gap-2 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition disabled:bg-green-600"
+              >
+                <Icon name={isSaved ? "check" : "save"} className="w-5 h-5" />
+                {isSaved ? 'Saved!' : 'Save Result'}
+              </button>
+            </div>
           </div>
           <div className="p-4 bg-gray-800 border border-gray-700 rounded-lg whitespace-pre-wrap text-gray-300">
             {result}
@@ -1,8 +1,14 @@
 import React, { useState, useRef } from 'react';
-import { generateHeadshots } from '../services/geminiService';
 import { fileToBase64 } from '../utils/fileUtils';
+import { useJobs } from '../contexts/JobContext';
+import { getMediaFile } from '../services/libraryStore';
+import { useRerunItem } from '../hooks/useRerunItem';
+import { useHandoff } from '../hooks/useHandoff';
+import { useMediaUrl } from '../hooks/useMediaUrl';
 import { Spinner } from './common/Spinner';
 import { Icon } from './common/Icon';
+import { SendToMenu } from './common/SendToMenu';
+import { getErrorMessage } from '../services/apiErrors';
 
 const photoshootTypes = [
     'Corporate/Business',
@@ -14,12 +20,43 @@ const photoshootTypes = [
     'Fitness/Sporty',
 ];
 
+const GeneratedImage: React.FC<{ itemId: string; index: number }> = ({ itemId, index }) => {
+    const { url } = useMediaUrl(itemId);
+    return (
+        <div className="bg-gray-900 rounded-lg overflow-hidden">
+            {url ? (
+                <img src={url} alt={`Generated image ${index + 1}`} className="w-full h-auto object-cover aspect-square" />
+            ) : (
+                <div className="w-full aspect-square flex items-center justify-center"><Spinner /></div>
+            )}
+            {url && (
+                <div className="p-2 flex justify-end">
+                    <SendToMenu
+                        kind="image"
+                        exclude="headshot-gen"
+                        getPayload={async () => {
+                            const file = await getMediaFile(itemId);
+                            return file ? { kind: 'image', file, itemId } : null;
+                        }}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface HeadshotGeneratorProps {
+    rerunItemId?: string; // library item whose settings pre-fill the form
+    handoffId?: string; // photo sent from another tool
+}
 
-export const HeadshotGenerator: React.FC = () => {
+export const HeadshotGenerator: React.FC<HeadshotGeneratorProps> = ({ rerunItemId, handoffId }) => {
+    const { jobs, startHeadshotJob } = useJobs();
     const [file, setFile] = useState<File | null>(null);
+    const [fileItemId, setFileItemId] = useState<string | null>(null); // set when the photo came from the library
     const [preview, setPreview] = useState<string | null>(null);
-    const [generatedImages, setGeneratedImages] = useState<string[]>([]);
-    const [isLoading, setIsLoading] = useState(false);
+    const [jobId, setJobId] = useState<string | null>(null);
+    const [isStarting, setIsStarting] = useState(false);
     const [error, setError] = useState<string | null>(null);
     
     // New state for custom inputs
@@ -28,13 +65,42 @@ export const HeadshotGenerator: React.FC = () => {
     const [details, setDetails] = useState('');
 
     const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const job = jobs.find(j => j.id === jobId);
+    const isLoading = isStarting || job?.status === 'running';
+    const generatedImageIds = job?.status === 'succeeded' ? job.resultItemIds : [];
     
+    useRerunItem(rerunItemId, item => {
+        const settings = item.metadata?.settings ?? {};
+        setProfession(String(settings.profession ?? ''));
+        if (photoshootTypes.includes(String(settings.photoshootType))) setPhotoshootType(String(settings.photoshootType));
+        setDetails(String(settings.details ?? ''));
+        const photoItemId = item.metadata?.inputs?.[0]?.itemId;
+        if (!photoItemId) return;
+        getMediaFile(photoItemId).then(photo => {
+            if (!photo) return;
+            setFile(photo);
+            setFileItemId(photoItemId);
+            setPreview(URL.createObjectURL(photo));
+        });
+    });
+
+    useHandoff(handoffId, payload => {
+        if (payload.kind !== 'image') return;
+        setFile(payload.file);
+        setFileItemId(payload.itemId ?? null);
+        setPreview(URL.createObjectURL(payload.file));
+        setJobId(null);
+        setError(null);
+    });
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const selectedFile = e.target.files?.[0];
         if (selectedFile) {
             setFile(selectedFile);
+            setFileItemId(null);
             setPreview(URL.createObjectURL(selectedFile));
-            setGeneratedImages([]);
+            setJobId(null);
             setError(null);
         }
     };
@@ -49,20 +115,18 @@ export const HeadshotGenerator: React.FC = () => {
             setError('Please enter a profession.');
             return;
         }
-        setIsLoading(true);
+        setIsStarting(true);
         setError(null);
-        setGeneratedImages([]);
+        setJobId(null);
         try {
             const base64 = await fileToBase64(file);
-            const images = await generateHeadshots(base64, file.type, profession, photoshootType, details);
-            setGeneratedImages(images);
-            if (images.length === 0) {
-                setError("Sorry, we couldn't generate any images. Please try a different photo or prompt.");
-            }
+            const inputs = [fileItemId ? { itemId: fileItemId, name: file.name } : { name: file.name }];
+            const newJob = startHeadshotJob({ image: { base64, mimeType: file.type }, profession, photoshootType, details, inputs });
+            setJobId(newJob.id);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+            setError(getErrorMessage(err, 'An unknown error occurred.'));
         } finally {
-            setIsLoading(false);
+            setIsStarting(false);
         }
     };
 
@@ -131,6 +195,7 @@ export const HeadshotGenerator: React.FC = () => {
                         {isLoading ? <Spinner size="sm" /> : `Generate 4 Images`}
                     </button>
                     {error && <div className="p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-lg">{error}</div>}
+                    {job?.status === 'failed' && <div className="p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-lg">{job.error}</div>}
                 </div>
                 
                 {/* Column 2: Results */}
@@ -139,10 +204,11 @@ export const HeadshotGenerator: React.FC = () => {
                         <div className="flex flex-col items-center justify-center h-full bg-gray-800 rounded-lg">
                             <Spinner size="lg" />
                             <p className="mt-4 text-gray-300">Generating your photoshoot... this may take a moment.</p>
+                            {job?.progress && <p className="mt-2 text-sm text-gray-500">{job.progress.completed} of {job.progress.total} done. Results are saved to My Library automatically.</p>}
                         </div>
                     )}
 
-                    {!isLoading && generatedImages.length === 0 && (
+                    {!isLoading && generatedImageIds.length === 0 && (
                          <div className="flex flex-col items-center justify-center h-full bg-gray-800 rounded-lg p-8">
                             <Icon name="portrait" className="w-24 h-24 text-gray-600 mb-4" />
                             <h3 className="text-xl font-semibold">Your images will appear here</h3>
@@ -150,14 +216,12 @@ export const HeadshotGenerator: React.FC = () => {
                         </div>
                     )}
                     
-                    {generatedImages.length > 0 && (
+                    {generatedImageIds.length > 0 && (
                         <div>
                              <h3 className="text-xl font-semibold mb-4">Your Generated Photoshoot</h3>
                              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                                {generatedImages.map((imageUrl, index) => (
-                                    <div key={index} className="bg-gray-900 rounded-lg overflow-hidden">
-                                        <img src={imageUrl} alt={`Generated image ${index + 1}`} className="w-full h-auto object-cover aspect-square" />
-                                    </div>
+                                {generatedImageIds.map((itemId, index) => (
+                                    <GeneratedImage key={itemId} itemId={itemId} index={index} />
                                 ))}
                             </div>
                         </div>
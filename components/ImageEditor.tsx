@@ -1,36 +1,109 @@
-import React, { useState, useRef } from 'react';
-import { editImage, analyzeImage } from '../services/geminiService';
-import { fileToBase64 } from '../utils/fileUtils';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { editImage, analyzeImage, getModelId } from '../services/geminiService';
+import { getMediaFile } from '../services/libraryStore';
+import { fileToBase64, fileToDataUrl, dataUrlToPayload, dataUrlToFile } from '../utils/fileUtils';
 import { useSavedContent } from '../contexts/SavedContentContext';
 import { Spinner } from './common/Spinner';
 import { Icon } from './common/Icon';
+import { MaskCanvas } from './common/MaskCanvas';
+import { SendToMenu } from './common/SendToMenu';
+import { useEditHistory, EditStep } from '../hooks/useEditHistory';
+import { useRerunItem } from '../hooks/useRerunItem';
+import { useHandoff } from '../hooks/useHandoff';
+import { AssetRef, GenerationMetadata } from '../types';
+import { getErrorMessage } from '../services/apiErrors';
 
-export const ImageEditor: React.FC = () => {
-  const [sourceFile, setSourceFile] = useState<File | null>(null);
+interface ImageEditorProps {
+  initialItemId?: string; // library item to open as the source image
+  rerunItemId?: string; // library item whose edit prompt pre-fills the form
+  handoffId?: string; // image sent from another tool
+}
+
+export const ImageEditor: React.FC<ImageEditorProps> = ({ initialItemId, rerunItemId, handoffId }) => {
   const [sourcePreview, setSourcePreview] = useState<string | null>(null);
+  const [sourceRef, setSourceRef] = useState<AssetRef | null>(null);
   const [referenceFile, setReferenceFile] = useState<File | null>(null);
   const [referencePreview, setReferencePreview] = useState<string | null>(null);
   
   const [prompt, setPrompt] = useState('');
-  const [editedImage, setEditedImage] = useState<string | null>(null);
+  const [mask, setMask] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isSaved, setIsSaved] = useState(false);
-  const { saveItem } = useSavedContent();
+  const [isChainSaved, setIsChainSaved] = useState(false);
+  const { saveItem, savedItems } = useSavedContent();
+  const history = useEditHistory();
+  const { current, reset: resetHistory } = history;
+  const currentIndex = history.line.findIndex(step => step.id === current?.id);
 
   const sourceFileInputRef = useRef<HTMLInputElement>(null);
   const referenceFileInputRef = useRef<HTMLInputElement>(null);
+  // Settings each edit step was made with, and the library id of steps already saved, for lineage.
+  const stepMetadataRef = useRef<Record<string, GenerationMetadata>>({});
+  const savedStepIdsRef = useRef<Record<string, string>>({});
+
+  useRerunItem(rerunItemId, item => setPrompt(item.prompt));
+
+  const loadSourceFile = useCallback(async (selectedFile: File, itemId?: string) => {
+    setSourcePreview(URL.createObjectURL(selectedFile));
+    setSourceRef(itemId ? { itemId, name: selectedFile.name } : { name: selectedFile.name });
+    savedStepIdsRef.current = {};
+    setMask(null);
+    setError(null);
+    setAnalysis(null);
+    resetHistory(await fileToDataUrl(selectedFile));
+  }, [resetHistory]);
+
+  useEffect(() => {
+    if (!initialItemId) return;
+    let cancelled = false;
+    getMediaFile(initialItemId)
+      .then(file => {
+        if (cancelled) return;
+        if (file && file.type.startsWith('image/')) {
+          loadSourceFile(file, initialItemId);
+        } else {
+          setError('That library image could not be found.');
+        }
+      })
+      .catch(() => !cancelled && setError('That library image could not be loaded.'));
+    return () => {
+      cancelled = true;
+    };
+  }, [initialItemId, loadSourceFile]);
+
+  // A mask is painted for one step; undo, redo and switching branches show a fresh canvas.
+  useEffect(() => {
+    setMask(null);
+  }, [current?.id]);
+
+  useHandoff(handoffId, payload => {
+    if (payload.kind === 'image') loadSourceFile(payload.file, payload.itemId);
+  });
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z step through the history, except while typing.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || target.tagName === 'TEXTAREA' || target.tagName === 'INPUT') return;
+      if (e.key.toLowerCase() === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((e.key.toLowerCase() === 'z' && e.shiftKey) || e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history]);
 
   const handleSourceFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
-      setSourceFile(selectedFile);
-      setSourcePreview(URL.createObjectURL(selectedFile));
-      setEditedImage(null);
-      setError(null);
-      setAnalysis(null);
+      loadSourceFile(selectedFile);
     }
   };
   
@@ -43,7 +116,7 @@ export const ImageEditor: React.FC = () => {
   };
 
   const handleAnalyze = async () => {
-      if (!sourceFile) {
+      if (!current) {
           setError('Please upload a source image first.');
           return;
       }
@@ -51,11 +124,11 @@ export const ImageEditor: React.FC = () => {
       setError(null);
       setAnalysis(null);
       try {
-          const base64 = await fileToBase64(sourceFile);
-          const result = await analyzeImage('Describe this image for a social media post.', base64, sourceFile.type);
+          const { base64, mimeType } = dataUrlToPayload(current.image);
+          const result = await analyzeImage('Describe this image for a social media post.', base64, mimeType);
           setAnalysis(result);
       } catch (err) {
-          setError(err instanceof Error ? err.message : 'An unknown error occurred during analysis.');
+          setError(getErrorMessage(err, 'An unknown error occurred during analysis.'));
       } finally {
           setIsAnalyzing(false);
       }
@@ -63,18 +136,14 @@ export const ImageEditor: React.FC = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!sourceFile || !prompt.trim()) {
+    if (!current || !prompt.trim()) {
       setError('Please upload a source image and enter a prompt.');
       return;
     }
     setIsLoading(true);
     setError(null);
-    setEditedImage(null);
     try {
-      const sourceImg = {
-        base64: await fileToBase64(sourceFile),
-        mimeType: sourceFile.type,
-      };
+      const sourceImg = dataUrlToPayload(current.image);
 
       let referenceImg;
       if (referenceFile) {
@@ -84,28 +153,72 @@ export const ImageEditor: React.FC = () => {
         };
       }
       
-      const imageUrl = await editImage(prompt, sourceImg, referenceImg);
-      setEditedImage(imageUrl);
+      const maskImg = mask ? { base64: mask.split(',')[1], mimeType: 'image/png' } : undefined;
+      const imageUrl = await editImage(prompt, sourceImg, referenceImg, maskImg);
+      const stepId = history.push(imageUrl, prompt);
+      if (stepId) {
+        stepMetadataRef.current[stepId] = {
+          tool: 'image-edit',
+          model: getModelId('imageEdit'),
+          inputs: [...(sourceRef ? [sourceRef] : []), ...(referenceFile ? [{ name: referenceFile.name }] : [])],
+          settings: { masked: !!maskImg },
+        };
+      }
+      setMask(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      setError(getErrorMessage(err, 'An unknown error occurred.'));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleSave = () => {
-    if (editedImage) {
-        saveItem({ type: 'image', content: editedImage, prompt });
+  // Links a step to the saved copy of the step before it, falling back to the library source.
+  // A step still in the library is not saved again. Resolves to false when storage failed.
+  const saveStep = async (step: EditStep): Promise<boolean> => {
+    const savedId = savedStepIdsRef.current[step.id];
+    if (savedId && savedItems.some(item => item.id === savedId)) return true;
+    const parentId = (step.parentId && savedStepIdsRef.current[step.parentId]) || sourceRef?.itemId;
+    const item = await saveItem({
+      type: 'image',
+      content: step.image,
+      prompt: step.prompt,
+      metadata: stepMetadataRef.current[step.id],
+      ...(parentId && { parentId }),
+    });
+    if (item) savedStepIdsRef.current[step.id] = item.id;
+    return !!item;
+  };
+
+  // The original keeps its library id; an edit step has one once it has been saved.
+  const handoffCurrent = async () => current && {
+    kind: 'image' as const,
+    file: await dataUrlToFile(current.image, current.parentId ? 'edited-image' : sourceRef?.name.replace(/\.[^.]+$/, '') || 'image'),
+    itemId: current.parentId ? savedStepIdsRef.current[current.id] : sourceRef?.itemId,
+  };
+
+  const handleSave = async () => {
+    if (current?.parentId && await saveStep(current)) {
         setIsSaved(true);
         setTimeout(() => setIsSaved(false), 2000);
     }
   };
 
+  // Saves every edit leading to the current step, oldest first, each linked to the one before.
+  const handleSaveChain = async () => {
+    const chain = history.line.slice(1, currentIndex + 1);
+    // Stops at the first failure, which the storage error toast reports.
+    for (const step of chain) {
+        if (!await saveStep(step)) return;
+    }
+    setIsChainSaved(true);
+    setTimeout(() => setIsChainSaved(false), 2000);
+  };
+
   return (
     <div className="max-w-4xl mx-auto">
       <h2 className="text-3xl font-bold mb-6 text-red-400">Image Magic Studio</h2>
       <p className="mb-6 text-gray-400">
-        Upload a source image to edit. You can optionally add a reference image to influence the edit, like transferring a style or combining elements. You can also analyze the source image to get a description.
+        Upload a source image to edit. You can optionally add a reference image to influence the edit, like transferring a style or combining elements. You can also analyze the source image to get a description. Each result becomes the new source, so you can keep refining it, and the edit history lets you undo, redo or branch from any step.
       </p>
 
       <div className="grid md:grid-cols-2 gap-4 mb-6">
@@ -141,20 +254,80 @@ export const ImageEditor: React.FC = () => {
         </div>
       </div>
 
-      {sourcePreview && (
+      {current && (
         <>
             <div className="mt-4">
                 <button onClick={handleAnalyze} disabled={isAnalyzing} className="w-full flex justify-center items-center py-3 px-4 bg-black hover:bg-gray-800 border border-gray-600 text-white font-semibold rounded-lg transition disabled:bg-gray-900 disabled:text-gray-500 disabled:cursor-not-allowed">
-                    {isAnalyzing ? <Spinner size="sm" /> : 'Analyze Source Image'}
+                    {isAnalyzing ? <Spinner size="sm" /> : current.parentId ? 'Analyze Current Image' : 'Analyze Source Image'}
                 </button>
             </div>
             {isAnalyzing && <p className="text-center mt-2 text-sm text-gray-400">Analyzing...</p>}
             {analysis && (
                 <div className="mt-4 p-4 bg-gray-800 border border-gray-700 rounded-lg">
-                    <h3 className="font-semibold text-red-400 mb-2">Analysis Result:</h3>
+                    <div className="flex justify-between items-center gap-2 mb-2">
+                        <h3 className="font-semibold text-red-400">Analysis Result:</h3>
+                        <SendToMenu kind="text" getPayload={() => ({ kind: 'text', text: analysis })} />
+                    </div>
                     <p className="text-gray-300 whitespace-pre-wrap">{analysis}</p>
                 </div>
             )}
+            {history.line.length > 1 && (
+                <div className="mt-6 p-4 bg-gray-800 border border-gray-700 rounded-lg">
+                    <div className="flex flex-wrap items-center gap-2 mb-3">
+                        <h3 className="font-semibold text-red-400">Edit History</h3>
+                        <div className="flex-grow"></div>
+                        <button type="button" onClick={history.undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)" className="py-1 px-3 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition disabled:opacity-50">Undo</button>
+                        <button type="button" onClick={history.redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)" className="py-1 px-3 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition disabled:opacity-50">Redo</button>
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaved || !current.parentId}
+                            className="flex items-center gap-2 py-1 px-3 bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold rounded-lg transition disabled:opacity-50"
+                        >
+                            <Icon name={isSaved ? "check" : "save"} className="w-4 h-4" />
+                            {isSaved ? 'Saved!' : 'Save Current'}
+                        </button>
+                        <button
+                            onClick={handleSaveChain}
+                            disabled={isChainSaved || !current.parentId}
+                            className="flex items-center gap-2 py-1 px-3 bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold rounded-lg transition disabled:opacity-50"
+                        >
+                            <Icon name={isChainSaved ? "check" : "save"} className="w-4 h-4" />
+                            {isChainSaved ? 'Saved!' : 'Save Chain'}
+                        </button>
+                    </div>
+                    <div className="flex gap-3 overflow-x-auto pb-2">
+                        {history.line.map((step, index) => {
+                            const siblings = step.parentId ? history.childrenOf(step.parentId) : [];
+                            return (
+                                <div key={step.id} className={`flex-shrink-0 w-24 ${index > currentIndex ? 'opacity-50' : ''}`}>
+                                    <button
+                                        type="button"
+                                        onClick={() => history.select(step.id)}
+                                        title={step.prompt}
+                                        className={`block w-24 h-24 rounded-md overflow-hidden border-2 ${step.id === current.id ? 'border-red-500' : 'border-transparent hover:border-gray-500'}`}
+                                    >
+                                        <img src={step.image} alt={step.prompt} className="w-full h-full object-cover" />
+                                    </button>
+                                    <p className="mt-1 text-xs text-gray-400 truncate" title={step.prompt}>{index === 0 ? 'Original' : `${index}. ${step.prompt}`}</p>
+                                    {siblings.length > 1 && (
+                                        <button type="button" onClick={() => history.switchBranch(step.id)} className="text-xs text-red-400 hover:underline">
+                                            Branch {siblings.findIndex(s => s.id === step.id) + 1}/{siblings.length} ›
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <p className="text-xs text-gray-500">Select any step to continue editing from it. New edits from an earlier step start a branch; the later steps are kept.</p>
+                </div>
+            )}
+            <div className="mt-6 p-4 bg-gray-800 border border-gray-700 rounded-lg">
+                <div className="flex justify-between items-center gap-2 mb-3">
+                    <h3 className="font-semibold text-red-400">{current.parentId ? `Editing Step ${currentIndex}` : 'Edit Area'}</h3>
+                    <SendToMenu kind="image" exclude="image-edit" getPayload={handoffCurrent} />
+                </div>
+                <MaskCanvas key={current.id} imageUrl={current.image} onMaskChange={setMask} />
+            </div>
             <form onSubmit={handleSubmit} className="space-y-4 mt-6">
                 <div>
                 <label htmlFor="prompt" className="block text-sm font-medium text-gray-300 mb-2">
@@ -188,25 +361,6 @@ export const ImageEditor: React.FC = () => {
           <p className="mt-2 text-gray-400">Applying magic...</p>
         </div>
       )}
-
-      {editedImage && (
-        <div className="mt-8">
-            <div className="flex justify-between items-center mb-4">
-                <h3 className="text-xl font-semibold">Edited Result</h3>
-                <button
-                    onClick={handleSave}
-                    disabled={isSaved}
-                    className="flex items-center gap-2 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition disabled:bg-green-600"
-                >
-                    <Icon name={isSaved ? "check" : "save"} className="w-5 h-5" />
-                    {isSaved ? 'Saved!' : 'Save Edit'}
-                </button>
-            </div>
-          <div className="bg-gray-800 p-2 rounded-lg">
-            <img src={editedImage} alt="Edited" className="w-full h-auto rounded-md" />
-          </div>
-        </div>
-      )}
     </div>
   );
 };
\ No newline at end of file
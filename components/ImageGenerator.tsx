@@ -1,17 +1,50 @@
 import React, { useState, useEffect } from 'react';
-import { generateImage } from '../services/geminiService';
+import { generateImage, getModelId, supportsImageSeed } from '../services/geminiService';
+import { PersonGeneration } from '../services/aiProvider';
 import { useSavedContent } from '../contexts/SavedContentContext';
+import { useRerunItem } from '../hooks/useRerunItem';
+import { useHandoff } from '../hooks/useHandoff';
+import { dataUrlToFile } from '../utils/fileUtils';
 import { Spinner } from './common/Spinner';
 import { Icon } from './common/Icon';
+import { SendToMenu } from './common/SendToMenu';
+import { getErrorMessage } from '../services/apiErrors';
 
-export const ImageGenerator: React.FC = () => {
+interface GeneratedImage {
+  url: string;
+  seed?: number; // only when the backend honours seeds
+}
+
+const personGenerationOptions: { value: PersonGeneration; label: string }[] = [
+  { value: 'ALLOW_ADULT', label: 'Adults only' },
+  { value: 'ALLOW_ALL', label: 'Adults and children' },
+  { value: 'DONT_ALLOW', label: 'No people' },
+];
+
+const randomSeed = () => Math.floor(Math.random() * 1_000_000);
+
+interface ImageGeneratorProps {
+  rerunItemId?: string; // library item whose settings pre-fill the form
+  handoffId?: string; // prompt sent from another tool
+}
+
+export const ImageGenerator: React.FC<ImageGeneratorProps> = ({ rerunItemId, handoffId }) => {
   const [prompt, setPrompt] = useState('');
   const [aspectRatio, setAspectRatio] = useState('1:1');
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [numberOfImages, setNumberOfImages] = useState(1);
+  const [negativePrompt, setNegativePrompt] = useState('');
+  const [personGeneration, setPersonGeneration] = useState<PersonGeneration>('ALLOW_ADULT');
+  const [seed, setSeed] = useState(randomSeed);
+  const [isSeedLocked, setIsSeedLocked] = useState(false);
+  const [images, setImages] = useState<GeneratedImage[]>([]);
+  // Settings the current results were generated with, so later form edits don't change what gets saved.
+  const [resultSettings, setResultSettings] = useState({ prompt: '', model: '', aspectRatio: '1:1', negativePrompt: '', personGeneration: 'ALLOW_ADULT' as PersonGeneration });
+  const [selected, setSelected] = useState<Set<number>>(new Set());
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSaved, setIsSaved] = useState(false);
   const { saveItem } = useSavedContent();
+  const isSeedSupported = supportsImageSeed();
 
   // Load state from session storage on component mount
   useEffect(() => {
@@ -21,17 +54,40 @@ export const ImageGenerator: React.FC = () => {
         const savedState = JSON.parse(savedStateJSON);
         setPrompt(savedState.prompt || '');
         setAspectRatio(savedState.aspectRatio || '1:1');
+        setNumberOfImages(savedState.numberOfImages || 1);
+        setNegativePrompt(savedState.negativePrompt || '');
+        setPersonGeneration(savedState.personGeneration || 'ALLOW_ADULT');
+        if (savedState.isSeedLocked && typeof savedState.seed === 'number') {
+          setSeed(savedState.seed);
+          setIsSeedLocked(true);
+        }
       } catch (e) {
         console.error("Failed to parse image generator state from session storage", e);
       }
     }
   }, []); // Empty dependency array ensures this runs only once on mount
 
+  useRerunItem(rerunItemId, item => {
+    const { metadata } = item;
+    setPrompt(item.prompt);
+    if (metadata?.aspectRatio) setAspectRatio(metadata.aspectRatio);
+    setNegativePrompt(String(metadata?.settings?.negativePrompt ?? ''));
+    if (metadata?.settings?.personGeneration) setPersonGeneration(metadata.settings.personGeneration as PersonGeneration);
+    if (metadata?.seed !== undefined && isSeedSupported) {
+      setSeed(metadata.seed);
+      setIsSeedLocked(true);
+    }
+  });
+
+  useHandoff(handoffId, payload => {
+    if (payload.kind === 'text') setPrompt(payload.text);
+  });
+
   // Save state to session storage whenever it changes
   useEffect(() => {
-    const stateToSave = JSON.stringify({ prompt, aspectRatio });
+    const stateToSave = JSON.stringify({ prompt, aspectRatio, numberOfImages, negativePrompt, personGeneration, seed, isSeedLocked });
     sessionStorage.setItem('imageGeneratorState', stateToSave);
-  }, [prompt, aspectRatio]);
+  }, [prompt, aspectRatio, numberOfImages, negativePrompt, personGeneration, seed, isSeedLocked]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -39,32 +95,76 @@ export const ImageGenerator: React.FC = () => {
       setError('Please enter a prompt.');
       return;
     }
+    // An unlocked seed is re-rolled for every run but still recorded, so a good result can be locked in afterwards.
+    // Backends that ignore seeds get none, so no image claims one it wasn't made with.
+    const runSeed = !isSeedSupported ? undefined : isSeedLocked ? seed : randomSeed();
+    if (runSeed !== undefined) setSeed(runSeed);
     setIsLoading(true);
     setError(null);
-    setGeneratedImage(null);
+    setImages([]);
+    setSelected(new Set());
     try {
-      const imageUrl = await generateImage(prompt, aspectRatio);
-      setGeneratedImage(imageUrl);
+      const urls = await generateImage(prompt, aspectRatio, {
+        numberOfImages,
+        seed: runSeed,
+        negativePrompt: negativePrompt.trim() || undefined,
+        personGeneration,
+      });
+      setImages(urls.map((url, i) => ({ url, ...(runSeed !== undefined && { seed: runSeed + i }) })));
+      setResultSettings({ prompt, model: getModelId('image'), aspectRatio, negativePrompt, personGeneration });
+      setSelected(new Set(urls.map((_, i) => i)));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      setError(getErrorMessage(err, 'An unknown error occurred.'));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleSave = () => {
-    if (generatedImage) {
-        saveItem({ type: 'image', content: generatedImage, prompt });
-        setIsSaved(true);
-        setTimeout(() => setIsSaved(false), 2000);
+  const toggleSelected = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleUseSeed = (seed: number) => {
+    setSeed(seed);
+    setIsSeedLocked(true);
+  };
+
+  const handleSave = async () => {
+    const toSave = images.filter((_, i) => selected.has(i));
+    if (toSave.length === 0) return;
+    // Stops at the first failure, which the storage error toast reports.
+    for (const image of toSave) {
+      const saved = await saveItem({
+        type: 'image',
+        content: image.url,
+        prompt: resultSettings.prompt,
+        metadata: {
+          tool: 'image-gen',
+          model: resultSettings.model,
+          aspectRatio: resultSettings.aspectRatio,
+          ...(image.seed !== undefined && { seed: image.seed }),
+          settings: {
+            personGeneration: resultSettings.personGeneration,
+            ...(resultSettings.negativePrompt.trim() && { negativePrompt: resultSettings.negativePrompt.trim() }),
+          },
+        },
+      });
+      if (!saved) return;
     }
+    setIsSaved(true);
+    setTimeout(() => setIsSaved(false), 2000);
   };
 
   return (
     <div className="max-w-4xl mx-auto">
       <h2 className="text-3xl font-bold mb-6 text-red-400">Image Generation Studio</h2>
       <p className="mb-6 text-gray-400">
-        Create stunning, high-quality images from text descriptions using Imagen-4.0. Describe what you want to see, select an aspect ratio, and let the AI bring your vision to life.
+        Create stunning, high-quality images from text descriptions using Imagen-4.0. Describe what you want to see, select an aspect ratio, and generate up to four variations at once. Lock a seed to revisit a result you like.
       </p>
       <form onSubmit={handleSubmit} className="space-y-4">
         <div>
@@ -81,48 +181,163 @@ export const ImageGenerator: React.FC = () => {
           />
         </div>
         <div>
-          <label htmlFor="aspectRatio" className="block text-sm font-medium text-gray-300 mb-2">
-            Aspect Ratio
+          <label htmlFor="negativePrompt" className="block text-sm font-medium text-gray-300 mb-2">
+            Negative Prompt <span className="text-gray-500">(optional)</span>
           </label>
-          <select
-            id="aspectRatio"
-            value={aspectRatio}
-            onChange={(e) => setAspectRatio(e.target.value)}
+          <input
+            id="negativePrompt"
+            type="text"
+            value={negativePrompt}
+            onChange={(e) => setNegativePrompt(e.target.value)}
+            placeholder="e.g., blurry, text, watermark"
             className="w-full p-3 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition"
-          >
-            <option value="1:1">Square (1:1)</option>
-            <option value="16:9">Landscape (16:9)</option>
-            <option value="9:16">Portrait (9:16)</option>
-            <option value="4:3">Standard (4:3)</option>
-            <option value="3:4">Tall (3:4)</option>
-          </select>
+          />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="aspectRatio" className="block text-sm font-medium text-gray-300 mb-2">
+              Aspect Ratio
+            </label>
+            <select
+              id="aspectRatio"
+              value={aspectRatio}
+              onChange={(e) => setAspectRatio(e.target.value)}
+              className="w-full p-3 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition"
+            >
+              <option value="1:1">Square (1:1)</option>
+              <option value="16:9">Landscape (16:9)</option>
+              <option value="9:16">Portrait (9:16)</option>
+              <option value="4:3">Standard (4:3)</option>
+              <option value="3:4">Tall (3:4)</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="personGeneration" className="block text-sm font-medium text-gray-300 mb-2">
+              People
+            </label>
+            <select
+              id="personGeneration"
+              value={personGeneration}
+              onChange={(e) => setPersonGeneration(e.target.value as PersonGeneration)}
+              className="w-full p-3 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition"
+            >
+              {personGenerationOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <span className="block text-sm font-medium text-gray-300 mb-2">Number of Images</span>
+            <div className="flex rounded-lg overflow-hidden border border-gray-700">
+              {[1, 2, 3, 4].map(count => (
+                <button
+                  key={count}
+                  type="button"
+                  onClick={() => setNumberOfImages(count)}
+                  className={`flex-1 py-3 ${numberOfImages === count ? 'bg-red-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                >
+                  {count}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label htmlFor="seed" className="block text-sm font-medium text-gray-300 mb-2">
+              Seed
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                id="seed"
+                type="number"
+                min={0}
+                value={seed}
+                disabled={!isSeedSupported}
+                onChange={(e) => {
+                  setSeed(Math.max(0, Math.floor(Number(e.target.value) || 0)));
+                  setIsSeedLocked(true);
+                }}
+                className="flex-1 min-w-0 p-3 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition disabled:opacity-50"
+              />
+              <button
+                type="button"
+                onClick={() => setSeed(randomSeed())}
+                disabled={!isSeedSupported}
+                title="New random seed"
+                className="p-3 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition disabled:opacity-50"
+              >
+                <Icon name="refresh" className="w-5 h-5" />
+              </button>
+              <label className="flex items-center gap-2 text-sm text-gray-300 whitespace-nowrap">
+                <input type="checkbox" checked={isSeedLocked && isSeedSupported} disabled={!isSeedSupported} onChange={(e) => setIsSeedLocked(e.target.checked)} className="accent-red-500" />
+                Lock
+              </label>
+            </div>
+          </div>
         </div>
+        {!isSeedSupported && (
+          <p className="text-xs text-gray-500">
+            This backend doesn't accept seeds yet, so every run is random and no seed is recorded with your images.
+          </p>
+        )}
         <button
           type="submit"
           disabled={isLoading}
           className="w-full flex justify-center items-center py-3 px-4 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition disabled:bg-red-400 disabled:cursor-not-allowed"
         >
-          {isLoading ? <Spinner size="sm" /> : 'Generate Image'}
+          {isLoading ? <Spinner size="sm" /> : numberOfImages > 1 ? `Generate ${numberOfImages} Images` : 'Generate Image'}
         </button>
       </form>
 
       {error && <div className="mt-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-lg">{error}</div>}
 
-      {generatedImage && (
+      {images.length > 0 && (
         <div className="mt-8">
-          <div className="flex justify-between items-center mb-4">
-            <h3 className="text-xl font-semibold">Result</h3>
-            <button
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+            <h3 className="text-xl font-semibold">Results</h3>
+            <div className="flex items-center gap-2">
+              {images.length > 1 && (
+                <button
+                  onClick={() => setSelected(selected.size === images.length ? new Set() : new Set(images.map((_, i) => i)))}
+                  className="py-2 px-4 text-sm text-gray-300 hover:text-white transition"
+                >
+                  {selected.size === images.length ? 'Select None' : 'Select All'}
+                </button>
+              )}
+              <button
                 onClick={handleSave}
-                disabled={isSaved}
-                className="flex items-center gap-2 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition disabled:bg-green-600"
-            >
+                disabled={isSaved || selected.size === 0}
+                className="flex items-center gap-2 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
                 <Icon name={isSaved ? "check" : "save"} className="w-5 h-5" />
-                {isSaved ? 'Saved!' : 'Save Image'}
-            </button>
+                {isSaved ? 'Saved!' : images.length > 1 ? `Save Selected (${selected.size})` : 'Save Image'}
+              </button>
+            </div>
           </div>
-          <div className="bg-gray-800 p-2 rounded-lg">
-            <img src={generatedImage} alt="Generated" className="w-full h-auto rounded-md" />
+          <div className={`grid gap-4 ${images.length > 1 ? 'grid-cols-1 sm:grid-cols-2' : 'grid-cols-1'}`}>
+            {images.map((image, i) => (
+              <div
+                key={image.url}
+                className={`relative bg-gray-800 p-2 rounded-lg border-2 transition ${selected.has(i) ? 'border-red-500' : 'border-transparent'}`}
+              >
+                <button type="button" onClick={() => toggleSelected(i)} className="block w-full" aria-pressed={selected.has(i)}>
+                  <img src={image.url} alt={`Generated ${i + 1}`} className="w-full h-auto rounded-md" />
+                </button>
+                <div className="absolute top-4 left-4 w-6 h-6 rounded-full flex items-center justify-center bg-gray-900/80 border border-gray-500 pointer-events-none">
+                  {selected.has(i) && <Icon name="check" className="w-4 h-4 text-red-400" />}
+                </div>
+                <div className="flex justify-between items-center mt-2 text-sm text-gray-400">
+                  <span>{image.seed !== undefined && `Seed ${image.seed}`}</span>
+                  <div className="flex items-center gap-3">
+                    {image.seed !== undefined && (
+                      <button onClick={() => handleUseSeed(image.seed!)} className="text-red-400 hover:text-red-300 transition">
+                        Use this seed
+                      </button>
+                    )}
+                    <SendToMenu kind="image" getPayload={async () => ({ kind: 'image', file: await dataUrlToFile(image.url, `generated-${image.seed ?? i + 1}`) })} />
+                  </div>
+                </div>
+              </div>
+            ))}
           </div>
         </div>
       )}
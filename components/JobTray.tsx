@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { useJobs, VIDEO_MAX_WAIT_MS } from '../contexts/JobContext';
+import { buildRouteHash } from '../hooks/useRoute';
+import { Job } from '../types';
+import { Spinner } from './common/Spinner';
+import { Icon } from './common/Icon';
+
+const JOB_LABELS: Record<Job['kind'], string> = {
+    video: 'Video',
+    headshots: 'Photoshoot',
+};
+
+const formatElapsed = (ms: number) => {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Video operations report no progress, so their bar shows how much of the
+// maximum wait has been used instead.
+const progressPercent = (job: Job, now: number) => {
+    if (job.progress) return (job.progress.completed / job.progress.total) * 100;
+    if (job.kind === 'video') return Math.min(100, ((now - Date.parse(job.startedAt)) / VIDEO_MAX_WAIT_MS) * 100);
+    return 0;
+};
+
+const JobRow: React.FC<{ job: Job; now: number }> = ({ job, now }) => {
+    const { cancelJob, dismissJob } = useJobs();
+    const isRunning = job.status === 'running';
+    const elapsed = (job.finishedAt ? Date.parse(job.finishedAt) : now) - Date.parse(job.startedAt);
+
+    return (
+        <li className="p-3 bg-gray-900 rounded-lg text-sm">
+            <div className="flex items-center gap-2">
+                {isRunning ? <Spinner size="sm" /> : <Icon name={job.status === 'succeeded' ? 'check' : 'stop'} className={`w-4 h-4 ${job.status === 'succeeded' ? 'text-green-400' : 'text-gray-400'}`} />}
+                <span className="font-semibold">{JOB_LABELS[job.kind]}</span>
+                <span className="text-gray-500">{formatElapsed(elapsed)}</span>
+                <div className="flex-grow"></div>
+                {isRunning ? (
+                    <button onClick={() => cancelJob(job.id)} className="text-xs text-red-400 hover:underline">Cancel</button>
+                ) : (
+                    <button onClick={() => dismissJob(job.id)} title="Dismiss" className="text-gray-400 hover:text-white">&times;</button>
+                )}
+            </div>
+            <p className="mt-1 text-gray-400 truncate" title={job.prompt}>{job.prompt || 'Untitled'}</p>
+            {isRunning && (
+                <div className="mt-2 w-full h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                    <div className="h-full bg-red-500 transition-all" style={{ width: `${progressPercent(job, now)}%` }} />
+                </div>
+            )}
+            {job.progress && isRunning && <p className="mt-1 text-xs text-gray-500">{job.progress.completed} of {job.progress.total} done</p>}
+            {job.status === 'failed' && <p className="mt-1 text-xs text-red-400">{job.error}</p>}
+            {job.status === 'cancelled' && <p className="mt-1 text-xs text-gray-500">Cancelled</p>}
+            {job.status === 'succeeded' && (
+                <a href={buildRouteHash('library')} className="mt-1 inline-block text-xs text-red-400 hover:underline">
+                    Saved {job.resultItemIds.length === 1 ? 'to' : `${job.resultItemIds.length} items to`} My Library
+                </a>
+            )}
+        </li>
+    );
+};
+
+export const JobTray: React.FC = () => {
+    const { jobs, clearFinishedJobs } = useJobs();
+    const [isOpen, setIsOpen] = useState(true);
+    const [now, setNow] = useState(Date.now());
+    const runningCount = jobs.filter(job => job.status === 'running').length;
+
+    useEffect(() => {
+        if (runningCount === 0) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [runningCount]);
+
+    if (jobs.length === 0) return null;
+
+    return (
+        <div className="fixed bottom-6 left-6 md:left-72 z-40 w-80 max-w-[calc(100vw-3rem)] bg-gray-800 border border-gray-700 rounded-lg shadow-lg">
+            <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between p-3 text-sm font-semibold">
+                <span>{runningCount > 0 ? `${runningCount} job${runningCount === 1 ? '' : 's'} running` : 'Background jobs'}</span>
+                <span className="text-gray-400">{isOpen ? '▾' : '▴'}</span>
+            </button>
+            {isOpen && (
+                <div className="px-3 pb-3">
+                    <ul className="space-y-2 max-h-80 overflow-y-auto">
+                        {jobs.map(job => <JobRow key={job.id} job={job} now={now} />)}
+                    </ul>
+                    {jobs.length > runningCount && (
+                        <button onClick={clearFinishedJobs} className="mt-2 text-xs text-gray-400 hover:text-white">Clear finished</button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
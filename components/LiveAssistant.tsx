@@ -1,138 +1,459 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { connectLive } from '../services/geminiService';
+import { DEFAULT_LIVE_INSTRUCTION, connectLive, getModelId } from '../services/geminiService';
+import { LiveToolContext, findLiveTool, liveToolDeclarations } from '../services/liveTools';
 import { encode, decode, decodeAudioData } from '../utils/audioUtils';
+import { AudioCapture, startAudioCapture } from '../utils/audioCapture';
+import { downloadBlob } from '../utils/fileUtils';
+import { SPEAKER_LABELS, formatElapsed, transcriptToMarkdown, transcriptToSrt, transcriptToText, truncateSpokenText } from '../utils/transcriptUtils';
 import { Icon } from './common/Icon';
-import type { LiveServerMessage, Blob } from '@google/genai';
+import { BrandVoiceSelector } from './common/BrandVoiceSelector';
+import { PersonaSelector } from './common/PersonaSelector';
+import { useBrandVoice } from '../contexts/BrandVoiceContext';
+import { useVoiceSettings } from '../contexts/VoiceSettingsContext';
+import { useSavedContent } from '../contexts/SavedContentContext';
+import { getErrorMessage } from '../services/apiErrors';
+import { VideoSource, useVideoFrames } from '../hooks/useVideoFrames';
+import { useInputLevel } from '../hooks/useInputLevel';
+import { LevelMeter } from './common/LevelMeter';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { TranscriptEntry } from '../types';
+import type { FunctionCall, FunctionResponse, LiveServerMessage } from '@google/genai';
 
 type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
 
+type MicMode = 'open' | 'push';
+
+const LIVE_INPUT_SAMPLE_RATE = 16000;
+const MIC_MODE_KEY = 'liveMicMode';
+
+// The parts of the turn in progress, filled in as transcription chunks stream in.
+type PendingTurn = Record<'user' | 'model', TranscriptEntry | null>;
+
+const EMPTY_TURN: PendingTurn = { user: null, model: null };
+
+const frameRateOptions = [
+    { value: 0.2, label: 'Every 5 seconds' },
+    { value: 0.5, label: 'Every 2 seconds' },
+    { value: 1, label: '1 per second' },
+    { value: 2, label: '2 per second' },
+];
+
+const videoSourceLabels: Record<VideoSource, string> = { camera: 'Camera', screen: 'Screen' };
+
+const sessionFileName = (startedAt: Date, extension: string) =>
+    `live-session-${startedAt.toISOString().slice(0, 16).replace(/[T:]/g, '-')}.${extension}`;
+
+const speakerColors: Record<TranscriptEntry['speaker'], string> = {
+    user: 'text-red-400',
+    model: 'text-gray-200',
+    tool: 'text-blue-300',
+};
+
+const TranscriptLine: React.FC<{ entry: TranscriptEntry; isInterim?: boolean }> = ({ entry, isInterim }) => (
+    <p className={isInterim ? 'text-gray-400' : entry.speaker === 'tool' ? 'italic text-gray-300' : ''}>
+        <span className="text-xs text-gray-500 mr-2">{formatElapsed(entry.startMs)}</span>
+        <strong className={speakerColors[entry.speaker]}>{SPEAKER_LABELS[entry.speaker]}:</strong> {entry.text}
+    </p>
+);
+
+const ToolImage: React.FC<{ itemId: string }> = ({ itemId }) => {
+    const { url } = useMediaUrl(itemId);
+    return url ? <img src={url} alt="Generated by the assistant" className="ml-12 max-h-40 rounded-md" /> : null;
+};
+
+const micModeOptions: { value: MicMode; label: string }[] = [
+    { value: 'open', label: 'Open Mic' },
+    { value: 'push', label: 'Push to Talk (Space)' },
+];
+
+const LiveStatus: React.FC<{ isModelSpeaking: boolean; isMicOpen: boolean }> = ({ isModelSpeaking, isMicOpen }) => {
+    const [label, className] = isModelSpeaking
+        ? ['AI speaking', 'text-blue-300']
+        : isMicOpen
+            ? ['Listening', 'text-green-400']
+            : ['Mic off, hold to talk', 'text-gray-400'];
+    return (
+        <span className={`flex items-center gap-2 text-sm font-semibold whitespace-nowrap ${className}`} aria-live="polite">
+            <span className={`w-2.5 h-2.5 rounded-full bg-current ${isModelSpeaking || isMicOpen ? 'animate-pulse' : ''}`} />
+            {label}
+        </span>
+    );
+};
+
 export const LiveAssistant: React.FC = () => {
     const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
-    const [transcripts, setTranscripts] = useState<{ user: string, model: string }[]>([]);
-    const [currentInterim, setCurrentInterim] = useState<{ user: string, model: string }>({ user: '', model: '' });
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+    const [currentInterim, setCurrentInterim] = useState<PendingTurn>(EMPTY_TURN);
+    const [sessionStartedAt, setSessionStartedAt] = useState<Date | null>(null);
+    // The voice and persona the current session was started with; changing the selection only affects the next one.
+    const [sessionVoice, setSessionVoice] = useState<{ voice: string; persona?: string } | null>(null);
+    const [isSaved, setIsSaved] = useState(false);
+    const [framesPerSecond, setFramesPerSecond] = useState(1);
+    const [videoError, setVideoError] = useState<string | null>(null);
+    const [micMode, setMicMode] = useState<MicMode>(() => localStorage.getItem(MIC_MODE_KEY) === 'push' ? 'push' : 'open');
+    const [isTalking, setIsTalking] = useState(false);
+    const [isModelSpeaking, setIsModelSpeaking] = useState(false);
+    const [toolActivity, setToolActivity] = useState<string | null>(null);
+    const [confirmation, setConfirmation] = useState<string | null>(null);
 
     const sessionPromiseRef = useRef<Promise<any> | null>(null);
-    const audioContextRef = useRef<AudioContext | null>(null);
-    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-    const streamRef = useRef<MediaStream | null>(null);
+    const captureRef = useRef<AudioCapture | null>(null);
     const outputAudioContextRef = useRef<AudioContext | null>(null);
     const nextStartTimeRef = useRef<number>(0);
     const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+    // When the current reply's audio started and how much of it is queued, to work out how much was heard.
+    const replyAudioRef = useRef<{ startTime: number | null; duration: number }>({ startTime: null, duration: 0 });
+    // Bumped on every flush so audio still being decoded for an interrupted reply is dropped.
+    const playbackGenerationRef = useRef(0);
+    const micModeRef = useRef(micMode);
+    const isTalkingRef = useRef(false);
+    // Message handlers are created once per session, so the turn in progress lives in a ref they can always read.
+    const interimRef = useRef<PendingTurn>(EMPTY_TURN);
+    const sessionStartRef = useRef<number>(0);
+    // Resolves the question shown before a destructive tool runs; `callId` lets the server cancel it.
+    const confirmationRef = useRef<{ callId?: string; resolve: (approved: boolean) => void } | null>(null);
+    const { activeBrandVoice } = useBrandVoice();
+    const { defaultVoices, activePersona } = useVoiceSettings();
+    const { savedItems, saveItem, deleteItem } = useSavedContent();
+    const savedItemsRef = useRef(savedItems);
+    savedItemsRef.current = savedItems;
+    const video = useVideoFrames(({ base64, mimeType }) => {
+        sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ media: { data: base64, mimeType } }));
+    }, framesPerSecond);
+    const stopVideo = video.stop;
+    const inputLevel = useInputLevel();
+    const resetInputLevel = inputLevel.reset;
+
+    const commitSpeaker = useCallback((speaker: keyof PendingTurn, finish: (entry: TranscriptEntry) => TranscriptEntry = entry => entry) => {
+        const entry = interimRef.current[speaker];
+        interimRef.current = { ...interimRef.current, [speaker]: null };
+        setCurrentInterim(interimRef.current);
+        if (!entry) return;
+        const finished = finish(entry);
+        if (!finished.text.trim()) return;
+        setTranscript(prev => [...prev, { ...finished, text: finished.text.trim() }]);
+        setIsSaved(false);
+    }, []);
+
+    // Moves the turn in progress into the transcript. `modelEndMs` lets the reply's cue run until its audio finishes playing.
+    const commitInterim = useCallback((modelEndMs: number = 0) => {
+        commitSpeaker('user');
+        commitSpeaker('model', entry => ({ ...entry, endMs: Math.max(entry.endMs, modelEndMs) }));
+    }, [commitSpeaker]);
+
+    const appendInterim = (speaker: keyof PendingTurn, text: string) => {
+        // Once the reply starts, the user's words so far belong before it; anything they say next is a new line.
+        if (speaker === 'model' && !interimRef.current.model) commitSpeaker('user');
+        const now = Date.now() - sessionStartRef.current;
+        const entry = interimRef.current[speaker];
+        interimRef.current = {
+            ...interimRef.current,
+            [speaker]: entry ? { ...entry, text: entry.text + text, endMs: now } : { speaker, text, startMs: now, endMs: now },
+        };
+        setCurrentInterim(interimRef.current);
+    };
+
+    // Stops everything queued to play and returns the share of the current reply that was heard.
+    const flushPlayback = useCallback((): number => {
+        const context = outputAudioContextRef.current;
+        const { startTime, duration } = replyAudioRef.current;
+        const heard = context && startTime !== null && duration > 0
+            ? Math.min(1, Math.max(0, (context.currentTime - startTime) / duration))
+            : 0;
+        sourcesRef.current.forEach(source => source.stop());
+        sourcesRef.current.clear();
+        playbackGenerationRef.current += 1;
+        nextStartTimeRef.current = 0;
+        replyAudioRef.current = { startTime: null, duration: 0 };
+        setIsModelSpeaking(false);
+        return heard;
+    }, []);
+
+    const interruptReply = useCallback(() => {
+        const heard = flushPlayback();
+        commitSpeaker('model', entry => ({ ...entry, text: truncateSpokenText(entry.text, heard), endMs: Date.now() - sessionStartRef.current }));
+    }, [flushPlayback, commitSpeaker]);
+
+    const answerConfirmation = useCallback((approved: boolean) => {
+        confirmationRef.current?.resolve(approved);
+        confirmationRef.current = null;
+        setConfirmation(null);
+    }, []);
+
+    const askConfirmation = (callId: string | undefined, question: string) => new Promise<boolean>(resolve => {
+        confirmationRef.current?.resolve(false);
+        confirmationRef.current = { callId, resolve };
+        setConfirmation(question);
+    });
+
+    const addToolEntry = (text: string, itemId?: string) => {
+        commitSpeaker('user');
+        const now = Date.now() - sessionStartRef.current;
+        setTranscript(prev => [...prev, { speaker: 'tool', text, startMs: now, endMs: now, ...(itemId && { itemId }) }]);
+        setIsSaved(false);
+    };
+
+    // Runs the requested actions one at a time and reports every outcome, including
+    // declines and failures, so the assistant can tell the user what happened.
+    const handleToolCalls = async (calls: FunctionCall[]) => {
+        const context: LiveToolContext = { saveItem, deleteItem, getSavedItems: () => savedItemsRef.current };
+        const functionResponses: FunctionResponse[] = [];
+        for (const call of calls) {
+            const tool = findLiveTool(call.name);
+            const args = call.args ?? {};
+            let response: Record<string, unknown>;
+            if (!tool) {
+                response = { error: `There is no tool named "${call.name}".` };
+            } else if (tool.confirmation && !(await askConfirmation(call.id, tool.confirmation(args, context)))) {
+                addToolEntry(`Declined: ${tool.confirmation(args, context)}`);
+                response = { status: 'declined', reason: 'The user did not approve this action.' };
+            } else {
+                setToolActivity(tool.activity);
+                try {
+                    const result = await tool.run(args, context);
+                    addToolEntry(result.summary, result.itemId);
+                    response = result.response;
+                } catch (err) {
+                    console.error(`Live tool ${call.name} failed:`, err);
+                    const message = getErrorMessage(err, 'The action could not be completed.');
+                    addToolEntry(`${tool.activity} failed: ${message}`);
+                    response = { error: message };
+                } finally {
+                    setToolActivity(null);
+                }
+            }
+            functionResponses.push({ id: call.id, name: call.name, response });
+        }
+        // The conversation may have ended while an action was running.
+        sessionPromiseRef.current?.then(session => session.sendToolResponse({ functionResponses }))
+            .catch(err => console.error('Could not send the action results:', err));
+    };
 
     const stopConversation = useCallback(() => {
+        answerConfirmation(false);
+        if (sourcesRef.current.size > 0) interruptReply();
+        commitInterim();
+        stopVideo();
+        isTalkingRef.current = false;
+        setIsTalking(false);
         if (sessionPromiseRef.current) {
-            sessionPromiseRef.current.then(session => session.close());
+            // A connection that failed to open has nothing to close; startConversation reports it.
+            sessionPromiseRef.current.then(session => session.close()).catch(() => undefined);
             sessionPromiseRef.current = null;
         }
-        if (streamRef.current) {
-            streamRef.current.getTracks().forEach(track => track.stop());
-            streamRef.current = null;
-        }
-        if (scriptProcessorRef.current) {
-            scriptProcessorRef.current.disconnect();
-            scriptProcessorRef.current = null;
-        }
-        if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-            audioContextRef.current.close();
-        }
+        captureRef.current?.stop();
+        captureRef.current = null;
+        resetInputLevel();
         if(outputAudioContextRef.current && outputAudioContextRef.current.state !== 'closed'){
             outputAudioContextRef.current.close();
         }
         setConnectionState('disconnected');
-    }, []);
+    }, [answerConfirmation, interruptReply, commitInterim, stopVideo, resetInputLevel]);
 
     const startConversation = async () => {
-        if (connectionState !== 'disconnected') return;
+        if (connectionState === 'connecting' || connectionState === 'connected') return;
         setConnectionState('connecting');
-        setTranscripts([]);
-        setCurrentInterim({ user: '', model: '' });
+        setErrorMessage(null);
+        setTranscript([]);
+        interimRef.current = EMPTY_TURN;
+        setCurrentInterim(EMPTY_TURN);
+        sessionStartRef.current = Date.now();
+        setSessionStartedAt(new Date(sessionStartRef.current));
+        setIsSaved(false);
+        const persona = activePersona ?? { voice: defaultVoices['live-assistant'], systemInstruction: DEFAULT_LIVE_INSTRUCTION };
+        setSessionVoice({ voice: persona.voice, ...(activePersona && { persona: activePersona.name }) });
 
+        let sessionPromise: Promise<any> | null = null;
         try {
-            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
             outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
             nextStartTimeRef.current = 0;
             sourcesRef.current.clear();
+            replyAudioRef.current = { startTime: null, duration: 0 };
             const outputNode = outputAudioContextRef.current.createGain();
 
-            sessionPromiseRef.current = connectLive({
+            // Callbacks can fire before the connection resolves, so they reach the session through the ref.
+            sessionPromise = connectLive({
                 onopen: async () => {
                     setConnectionState('connected');
-                    streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
-                    const source = audioContextRef.current!.createMediaStreamSource(streamRef.current);
-                    scriptProcessorRef.current = audioContextRef.current!.createScriptProcessor(4096, 1, 1);
-
-                    scriptProcessorRef.current.onaudioprocess = (audioProcessingEvent) => {
-                        const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                        const pcmBlob = createBlob(inputData);
-                        if (sessionPromiseRef.current) {
-                            sessionPromiseRef.current.then((session) => {
-                                session.sendRealtimeInput({ media: pcmBlob });
-                            });
-                        }
-                    };
-                    source.connect(scriptProcessorRef.current);
-                    scriptProcessorRef.current.connect(audioContextRef.current!.destination);
+                    try {
+                        const capture = await startAudioCapture({
+                            sampleRate: LIVE_INPUT_SAMPLE_RATE,
+                            onChunk: chunk => {
+                                inputLevel.update(chunk);
+                                if (micModeRef.current === 'push' && !isTalkingRef.current) return;
+                                sessionPromiseRef.current?.then(session => session.sendRealtimeInput({
+                                    media: { data: encode(new Uint8Array(chunk.pcm.buffer)), mimeType: `audio/pcm;rate=${LIVE_INPUT_SAMPLE_RATE}` },
+                                })).catch(err => console.error('Could not send microphone audio:', err));
+                            },
+                        });
+                        // The conversation may have been stopped while the microphone was opening.
+                        if (sessionPromiseRef.current) captureRef.current = capture;
+                        else capture.stop();
+                    } catch (err) {
+                        console.error('Could not capture the microphone:', err);
+                        stopConversation();
+                        setErrorMessage('The microphone could not be opened. Check your browser permissions and try again.');
+                        setConnectionState('error');
+                    }
                 },
                 onmessage: async (message: LiveServerMessage) => {
                     handleMessage(message);
                 },
                 onerror: (e: ErrorEvent) => {
                     console.error('Live connection error:', e);
-                    setConnectionState('error');
                     stopConversation();
+                    setErrorMessage(getErrorMessage(e.error ?? e.message, 'The live connection was interrupted. Please try again.'));
+                    setConnectionState('error');
                 },
                 onclose: (e: CloseEvent) => {
                     stopConversation();
                 },
-            });
+            }, persona, activeBrandVoice, liveToolDeclarations);
+            sessionPromiseRef.current = sessionPromise;
+            await sessionPromise;
         } catch (err) {
             console.error('Failed to start conversation:', err);
+            // Nothing to report if the user already stopped while it was connecting.
+            if (sessionPromise && sessionPromiseRef.current !== sessionPromise) return;
+            sessionPromiseRef.current = null;
+            stopConversation();
+            setErrorMessage(getErrorMessage(err, 'Could not start the conversation. Please try again.'));
             setConnectionState('error');
         }
     };
     
-    const createBlob = (data: Float32Array): Blob => {
-        const l = data.length;
-        const int16 = new Int16Array(l);
-        for (let i = 0; i < l; i++) {
-            int16[i] = data[i] * 32768;
-        }
-        return {
-            data: encode(new Uint8Array(int16.buffer)),
-            mimeType: 'audio/pcm;rate=16000',
-        };
-    }
-    
     const handleMessage = async (message: LiveServerMessage) => {
+        if (message.toolCall?.functionCalls?.length) {
+            handleToolCalls(message.toolCall.functionCalls);
+        }
+        // The server drops calls the user talked over; a question still waiting for them is withdrawn.
+        const waitingCallId = confirmationRef.current?.callId;
+        if (waitingCallId && message.toolCallCancellation?.ids?.includes(waitingCallId)) {
+            answerConfirmation(false);
+        }
         if (message.serverContent) {
-            const { inputTranscription, outputTranscription, turnComplete } = message.serverContent;
-            
-            if (inputTranscription) {
-                setCurrentInterim(prev => ({ ...prev, user: prev.user + inputTranscription.text }));
+            const { inputTranscription, outputTranscription, turnComplete, interrupted } = message.serverContent;
+
+            // The user spoke over the reply: stop playing it and keep only the part that was heard.
+            if (interrupted) {
+                interruptReply();
+            }
+            if (inputTranscription?.text) {
+                appendInterim('user', inputTranscription.text);
             }
-            if (outputTranscription) {
-                setCurrentInterim(prev => ({ ...prev, model: prev.model + outputTranscription.text }));
+            if (outputTranscription?.text) {
+                appendInterim('model', outputTranscription.text);
             }
             if (turnComplete) {
-                setTranscripts(prev => [...prev, {user: currentInterim.user, model: currentInterim.model}]);
-                setCurrentInterim({ user: '', model: '' });
+                const outputContext = outputAudioContextRef.current;
+                const playbackLeftMs = outputContext ? Math.max(0, nextStartTimeRef.current - outputContext.currentTime) * 1000 : 0;
+                commitInterim(Date.now() - sessionStartRef.current + playbackLeftMs);
+                replyAudioRef.current = { startTime: null, duration: 0 };
             }
 
             const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
             if (base64Audio && outputAudioContextRef.current) {
-                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioContextRef.current.currentTime);
+                const generation = playbackGenerationRef.current;
                 const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContextRef.current, 24000, 1);
+                if (generation !== playbackGenerationRef.current || !outputAudioContextRef.current) return;
+                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioContextRef.current.currentTime);
                 const source = outputAudioContextRef.current.createBufferSource();
                 source.buffer = audioBuffer;
                 source.connect(outputAudioContextRef.current.destination);
-                source.addEventListener('ended', () => sourcesRef.current.delete(source));
+                source.addEventListener('ended', () => {
+                    sourcesRef.current.delete(source);
+                    setIsModelSpeaking(sourcesRef.current.size > 0);
+                });
                 source.start(nextStartTimeRef.current);
+                replyAudioRef.current.startTime ??= nextStartTimeRef.current;
+                replyAudioRef.current.duration += audioBuffer.duration;
                 nextStartTimeRef.current += audioBuffer.duration;
                 sourcesRef.current.add(source);
+                setIsModelSpeaking(true);
             }
         }
     }
 
+    // Talking over the reply interrupts it straight away instead of waiting for the server to notice.
+    const startTalking = useCallback(() => {
+        if (isTalkingRef.current) return;
+        isTalkingRef.current = true;
+        setIsTalking(true);
+        if (sourcesRef.current.size > 0) interruptReply();
+    }, [interruptReply]);
+
+    // Ending the audio stream tells the server's voice detection the user has finished.
+    const stopTalking = useCallback(() => {
+        if (!isTalkingRef.current) return;
+        isTalkingRef.current = false;
+        setIsTalking(false);
+        sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ audioStreamEnd: true }));
+    }, []);
+
+    const handleMicModeChange = (mode: MicMode) => {
+        stopTalking();
+        micModeRef.current = mode;
+        setMicMode(mode);
+        localStorage.setItem(MIC_MODE_KEY, mode);
+    };
+
+    // Hold Space to talk, except while typing.
+    useEffect(() => {
+        if (micMode !== 'push' || connectionState !== 'connected') return;
+        const isTyping = (e: KeyboardEvent) => ['INPUT', 'TEXTAREA', 'SELECT'].includes((e.target as HTMLElement).tagName);
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isTyping(e)) return;
+            e.preventDefault();
+            if (!e.repeat) startTalking();
+        };
+        const handleKeyUp = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isTyping(e)) return;
+            e.preventDefault();
+            stopTalking();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+        };
+    }, [micMode, connectionState, startTalking, stopTalking]);
+
+    const handleShareVideo = async (source: VideoSource) => {
+        setVideoError(null);
+        try {
+            await video.start(source);
+        } catch (err) {
+            console.error(`Could not share ${source}:`, err);
+            setVideoError(source === 'screen' ? 'Screen sharing was cancelled or blocked.' : 'The camera could not be opened. Check your browser permissions.');
+        }
+    };
+
+    const handleSaveTranscript = async () => {
+        if (!sessionStartedAt || transcript.length === 0) return;
+        const saved = await saveItem({
+            type: 'text',
+            content: transcriptToText(transcript),
+            prompt: `Live Assistant session, ${sessionStartedAt.toLocaleString()}`,
+            metadata: {
+                tool: 'live-assistant',
+                model: getModelId('live'),
+                ...(sessionVoice && { voice: sessionVoice.voice }),
+                ...(sessionVoice?.persona && { settings: { persona: sessionVoice.persona } }),
+            },
+        });
+        if (saved) setIsSaved(true);
+    };
+
+    const handleExport = (format: 'md' | 'srt') => {
+        if (!sessionStartedAt) return;
+        const blob = format === 'md'
+            ? new Blob([transcriptToMarkdown(transcript, sessionStartedAt)], { type: 'text/markdown' })
+            : new Blob([transcriptToSrt(transcript)], { type: 'application/x-subrip' });
+        downloadBlob(blob, sessionFileName(sessionStartedAt, format));
+    };
+
     useEffect(() => {
         // Cleanup on unmount
         return () => {
@@ -144,9 +465,26 @@ export const LiveAssistant: React.FC = () => {
         <div className="max-w-4xl mx-auto text-center">
             <h2 className="text-3xl font-bold mb-6 text-red-400">Live AI Assistant</h2>
             <p className="mb-8 text-gray-400">
-                Have a real-time conversation with your AI assistant. Perfect for hands-free brainstorming while you work.
+                Have a real-time conversation with your AI assistant. Perfect for hands-free brainstorming while you work, or share your camera or screen to get live feedback on what you are making. It can also generate images, save ideas and read back your saved captions when you ask.
             </p>
-            <div className="flex justify-center items-center mb-8">
+            <div className="flex flex-wrap justify-center gap-x-6 gap-y-3 mb-6">
+                <PersonaSelector disabled={connectionState === 'connecting' || connectionState === 'connected'} />
+                <BrandVoiceSelector />
+            </div>
+            <div className="flex justify-center mb-6">
+                <div className="flex rounded-lg overflow-hidden border border-gray-600 text-sm">
+                    {micModeOptions.map(option => (
+                        <button
+                            key={option.value}
+                            onClick={() => handleMicModeChange(option.value)}
+                            className={`py-1 px-3 ${micMode === option.value ? 'bg-red-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="flex flex-wrap justify-center items-center gap-4 mb-8">
                 {connectionState !== 'connected' ? (
                     <button
                         onClick={startConversation}
@@ -165,26 +503,112 @@ export const LiveAssistant: React.FC = () => {
                         Stop Conversation
                     </button>
                 )}
+                {connectionState === 'connected' && micMode === 'push' && (
+                    <button
+                        onPointerDown={(e) => {
+                            e.currentTarget.setPointerCapture(e.pointerId);
+                            startTalking();
+                        }}
+                        onPointerUp={stopTalking}
+                        onPointerCancel={stopTalking}
+                        className={`flex items-center gap-3 py-4 px-8 font-bold rounded-full transition select-none touch-none ${isTalking ? 'bg-green-600 text-white scale-105' : 'bg-gray-700 hover:bg-gray-600 text-white'}`}
+                    >
+                        <Icon name="mic" className="w-6 h-6" />
+                        {isTalking ? 'Talking...' : 'Hold to Talk'}
+                    </button>
+                )}
             </div>
             
+            <div className="mb-6 p-4 bg-gray-800 border border-gray-700 rounded-lg text-left">
+                <div className="flex flex-wrap items-center gap-2">
+                    <h3 className="font-semibold text-red-400 mr-auto">Share Video</h3>
+                    {(['camera', 'screen'] as VideoSource[]).map(source => (
+                        <button
+                            key={source}
+                            onClick={() => handleShareVideo(source)}
+                            disabled={connectionState !== 'connected' || video.source === source}
+                            className={`py-1 px-3 text-sm rounded-lg transition disabled:opacity-50 ${video.source === source ? 'bg-red-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-white'}`}
+                        >
+                            {videoSourceLabels[source]}
+                        </button>
+                    ))}
+                    {video.source && (
+                        <button onClick={video.stop} className="py-1 px-3 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition">
+                            Stop Sharing
+                        </button>
+                    )}
+                    <select
+                        value={framesPerSecond}
+                        onChange={(e) => setFramesPerSecond(Number(e.target.value))}
+                        title="How often a frame is sent to the assistant"
+                        className="p-1 text-sm bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition"
+                    >
+                        {frameRateOptions.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
+                </div>
+                {video.source ? (
+                    <video ref={video.videoRef} autoPlay muted playsInline className="mt-3 w-full max-h-64 bg-black rounded-md object-contain" />
+                ) : (
+                    <p className="mt-2 text-sm text-gray-500">
+                        {connectionState === 'connected'
+                            ? 'Show the assistant your camera or screen, like a draft thumbnail or a dashboard, and ask for feedback.'
+                            : 'Start a conversation to share your camera or screen.'}
+                    </p>
+                )}
+                {videoError && <p className="mt-2 text-sm text-red-400">{videoError}</p>}
+            </div>
+
             <div className="w-full min-h-[200px] bg-gray-800 rounded-lg p-4 text-left space-y-2">
-                {connectionState === 'connected' && <div className="text-green-400 text-sm font-semibold">● Live</div>}
-                {connectionState === 'error' && <div className="text-red-400 text-sm font-semibold">Connection Error. Please try again.</div>}
-                
-                {transcripts.map((t, i) => (
-                    <div key={i}>
-                        <p><strong className="text-red-400">You:</strong> {t.user}</p>
-                        <p><strong className="text-gray-200">AI:</strong> {t.model}</p>
+                {connectionState === 'connected' && (
+                    <div className="flex items-center gap-4">
+                        <LiveStatus isModelSpeaking={isModelSpeaking} isMicOpen={micMode === 'open' || isTalking} />
+                        <LevelMeter peak={inputLevel.peak} isClipping={inputLevel.isClipping} className="flex-1 max-w-xs" />
                     </div>
+                )}
+                {connectionState === 'error' && <div className="text-red-400 text-sm font-semibold">{errorMessage ?? 'Connection Error. Please try again.'}</div>}
+                
+                {transcript.map((entry, i) => (
+                    <React.Fragment key={i}>
+                        <TranscriptLine entry={entry} />
+                        {entry.itemId && savedItems.some(item => item.id === entry.itemId && item.type === 'image') && <ToolImage itemId={entry.itemId} />}
+                    </React.Fragment>
                 ))}
-                 { (currentInterim.user || currentInterim.model) &&
-                    <div>
-                        {currentInterim.user && <p className="text-gray-400"><strong className="text-red-400">You:</strong> {currentInterim.user}</p>}
-                        {currentInterim.model && <p className="text-gray-400"><strong className="text-gray-200">AI:</strong> {currentInterim.model}</p>}
+                {[currentInterim.user, currentInterim.model].map(entry => entry && (
+                    <TranscriptLine key={entry.speaker} entry={entry} isInterim />
+                ))}
+                {toolActivity && <p className="italic text-blue-300 animate-pulse">{toolActivity}...</p>}
+                {confirmation && (
+                    <div className="flex flex-wrap items-center gap-3 p-3 bg-gray-900 border border-yellow-500 rounded-lg" role="alertdialog" aria-label="Confirm action">
+                        <p className="flex-1 text-sm text-yellow-200">{confirmation}</p>
+                        <button onClick={() => answerConfirmation(true)} className="py-1 px-3 text-sm bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition">
+                            Approve
+                        </button>
+                        <button onClick={() => answerConfirmation(false)} className="py-1 px-3 text-sm bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition">
+                            Decline
+                        </button>
                     </div>
-                 }
-                 {connectionState === 'disconnected' && transcripts.length === 0 && <p className="text-gray-500">Your conversation will appear here...</p>}
+                )}
+                {connectionState === 'disconnected' && transcript.length === 0 && <p className="text-gray-500">Your conversation will appear here...</p>}
             </div>
+
+            {transcript.length > 0 && (
+                <div className="mt-4 flex flex-wrap justify-center gap-2">
+                    <button
+                        onClick={handleSaveTranscript}
+                        disabled={isSaved}
+                        className="flex items-center gap-2 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition disabled:bg-green-600"
+                    >
+                        <Icon name={isSaved ? "check" : "save"} className="w-5 h-5" />
+                        {isSaved ? 'Saved!' : 'Save Transcript'}
+                    </button>
+                    <button onClick={() => handleExport('md')} className="flex items-center gap-2 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition">
+                        <Icon name="download" className="w-5 h-5" /> Markdown
+                    </button>
+                    <button onClick={() => handleExport('srt')} className="flex items-center gap-2 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition">
+                        <Icon name="download" className="w-5 h-5" /> SRT
+                    </button>
+                </div>
+            )}
         </div>
     );
 };
\ No newline at end of file
@@ -1,34 +1,109 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useSavedContent } from '../contexts/SavedContentContext';
-import { SavedItem } from '../types';
+import { SavedItem, SourceTool } from '../types';
+import { getMedia } from '../services/libraryStore';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { buildRouteHash } from '../hooks/useRoute';
+import { downloadBlob, formatBytes } from '../utils/fileUtils';
+import { ArchiveFormatError, ConflictStrategy, ImportPlan, exportLibrary, libraryFileName, planImport, readLibraryArchive, resolveImport } from '../services/libraryArchive';
+import { Spinner } from './common/Spinner';
 import { Icon } from './common/Icon';
+import { WaveformPlayer } from './common/WaveformPlayer';
+import { TagInput } from './common/TagInput';
+import { SendToMenu } from './common/SendToMenu';
+import { HandoffPayload } from '../hooks/useHandoff';
+import { viewName } from './Sidebar';
+import { LibrarySort, getQueryFacet, matchesLibraryQuery, parseLibraryQuery, setQueryFacet, sortLibraryItems } from '../utils/librarySearch';
 
-const SavedItemCard: React.FC<{ item: SavedItem }> = ({ item }) => {
-    const { deleteItem } = useSavedContent();
+const RERUNNABLE_TOOLS: SourceTool[] = ['image-gen', 'image-edit', 'headshot-gen', 'video-gen', 'video-edit', 'content-analyzer', 'tts'];
+
+// Editors reopen on the item's parent, since that is the source the edit was applied to.
+const rerunHash = (item: SavedItem): string | null => {
+    const tool = item.metadata?.tool;
+    if (!tool || !RERUNNABLE_TOOLS.includes(tool)) return null;
+    const isEditor = tool === 'image-edit' || tool === 'video-edit';
+    return buildRouteHash(tool, { rerun: item.id, ...(isEditor && item.parentId && { item: item.parentId }) });
+};
+
+const describeMetadata = (item: SavedItem): string[] => {
+    const metadata = item.metadata;
+    if (!metadata) return [];
+    return [
+        viewName(metadata.tool),
+        metadata.model,
+        metadata.aspectRatio,
+        metadata.seed !== undefined ? `Seed ${metadata.seed}` : undefined,
+        metadata.voice && `Voice ${metadata.voice}`,
+        metadata.analysisType && `${metadata.analysisType} analysis`,
+    ].filter((part): part is string => !!part);
+};
+
+interface SavedItemCardProps {
+    item: SavedItem;
+    isHighlighted: boolean;
+    isSelected: boolean;
+    collectionName?: string;
+    tagSuggestions: string[];
+    onShowItem: (id: string) => void;
+    onToggleSelected: (id: string) => void;
+    onTagClick: (tag: string) => void;
+}
+
+const SavedItemCard: React.FC<SavedItemCardProps> = ({ item, isHighlighted, isSelected, collectionName, tagSuggestions, onShowItem, onToggleSelected, onTagClick }) => {
+    const { deleteItem, savedItems, updateItems } = useSavedContent();
     const [copied, setCopied] = useState(false);
+    const [downloadError, setDownloadError] = useState<string | null>(null);
+    const [isVisible, setIsVisible] = useState(false);
+    const cardRef = useRef<HTMLDivElement>(null);
+    const { url: mediaUrl, isMissing } = useMediaUrl(item.id, item.type !== 'text' && isVisible);
 
-    const handleDownload = async () => {
-        const link = document.createElement('a');
-        let href = item.content;
+    // Only pull media out of IndexedDB once the card is close to the viewport.
+    useEffect(() => {
+        const card = cardRef.current;
+        if (!card || item.type === 'text') return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) {
+                setIsVisible(true);
+                observer.disconnect();
+            }
+        }, { rootMargin: '200px' });
+        observer.observe(card);
+        return () => observer.disconnect();
+    }, [item.type]);
 
-        if (item.type === 'text') {
-            const blob = new Blob([item.content], { type: 'text/plain' });
-            href = URL.createObjectURL(blob);
+    const handleDownload = async () => {
+        setDownloadError(null);
+        try {
+            const blob = item.type === 'text'
+                ? new Blob([item.content], { type: 'text/plain' })
+                : await getMedia(item.id);
+            if (!blob) {
+                setDownloadError('Media unavailable');
+                return;
+            }
+            downloadBlob(blob, libraryFileName(item, blob.type || item.mimeType || ''));
+        } catch (error) {
+            console.error("Could not download the item", error);
+            setDownloadError('Download failed');
         }
-        
-        link.href = href;
+    };
+
+    const getHandoffPayload = async (): Promise<HandoffPayload | null> => {
+        if (item.type === 'text') return { kind: 'text', text: item.content };
+        const blob = await getMedia(item.id);
+        if (!blob) return null;
+        return { kind: 'image', file: new File([blob], libraryFileName(item, blob.type), { type: blob.type }), itemId: item.id };
+    };
 
-        const extension = { image: 'jpeg', video: 'mp4', text: 'txt' }[item.type];
-        link.download = `creator-ai-${item.type}-${Date.now()}.${extension}`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+    const handleToggleFavorite = () => updateItems([item.id], i => ({ ...i, isFavorite: !i.isFavorite }));
 
-        if (item.type === 'text') {
-            URL.revokeObjectURL(href);
-        }
+    const handleAddTag = (tag: string) => {
+        if (item.tags?.includes(tag)) return;
+        updateItems([item.id], i => ({ ...i, tags: [...(i.tags ?? []), tag] }));
     };
-    
+
+    const handleRemoveTag = (tag: string) => updateItems([item.id], i => ({ ...i, tags: i.tags?.filter(t => t !== tag) }));
+
     const handleCopy = () => {
         if(item.type !== 'text') return;
         navigator.clipboard.writeText(item.content).then(() => {
@@ -37,10 +112,24 @@ const SavedItemCard: React.FC<{ item: SavedItem }> = ({ item }) => {
         });
     }
 
+    const parent = item.parentId ? savedItems.find(i => i.id === item.parentId) : undefined;
+    const uploadedInputs = item.metadata?.inputs?.filter(input => !input.itemId) ?? [];
+    const rerunHref = rerunHash(item);
+    const details = describeMetadata(item);
+
     return (
-        <div className="bg-gray-800 rounded-lg overflow-hidden shadow-lg flex flex-col">
-            {item.type === 'image' && <img src={item.content} alt={item.prompt} className="w-full h-48 object-cover"/>}
-            {item.type === 'video' && <video src={item.content} controls className="w-full h-48 object-cover"/>}
+        <div ref={cardRef} id={`library-item-${item.id}`} className={`relative bg-gray-800 rounded-lg overflow-hidden shadow-lg flex flex-col transition ring-2 ${isHighlighted || isSelected ? 'ring-red-500' : 'ring-transparent'}`}>
+            <label className="absolute top-2 left-2 z-10 p-1 bg-gray-900/80 rounded-md cursor-pointer" title="Select">
+                <input type="checkbox" checked={isSelected} onChange={() => onToggleSelected(item.id)} className="accent-red-500 block" />
+            </label>
+            {item.type !== 'text' && !mediaUrl && (
+                <div className="w-full h-48 flex items-center justify-center bg-gray-900 text-sm text-gray-500">
+                    {isMissing ? 'Media unavailable' : <Spinner size="sm" />}
+                </div>
+            )}
+            {item.type === 'image' && mediaUrl && <img src={mediaUrl} alt={item.prompt} className="w-full h-48 object-cover"/>}
+            {item.type === 'video' && mediaUrl && <video src={mediaUrl} controls preload="metadata" className="w-full h-48 object-cover"/>}
+            {item.type === 'audio' && mediaUrl && <WaveformPlayer src={mediaUrl} className="w-full h-48" />}
             {item.type === 'text' && (
                  <div className="p-4 h-48 overflow-y-auto">
                     <p className="text-gray-300 text-sm whitespace-pre-wrap">{item.content}</p>
@@ -50,16 +139,53 @@ const SavedItemCard: React.FC<{ item: SavedItem }> = ({ item }) => {
                 <div>
                     <p className="text-xs text-gray-500 mb-2">
                         {new Date(item.createdAt).toLocaleString()} | <span className="font-semibold">{item.type.toUpperCase()}</span>
+                        {item.size !== undefined && <> | {formatBytes(item.size)}</>}
+                        {collectionName && <> | <span className="text-red-300">{collectionName}</span></>}
                     </p>
                     <p className="text-sm text-gray-400 line-clamp-2" title={item.prompt}>
                         <strong>Prompt:</strong> {item.prompt}
                     </p>
+                    {details.length > 0 && (
+                        <p className="text-xs text-gray-500 mt-2 truncate" title={details.join(' · ')}>{details.join(' · ')}</p>
+                    )}
+                    {item.parentId && (
+                        <p className="text-xs text-gray-500 mt-1 truncate">
+                            Made from:{' '}
+                            {parent ? (
+                                <button onClick={() => onShowItem(parent.id)} className="text-red-400 hover:text-red-300 transition" title={parent.prompt}>
+                                    {parent.prompt || `${parent.type} item`}
+                                </button>
+                            ) : (
+                                <span className="italic">a deleted item</span>
+                            )}
+                        </p>
+                    )}
+                    {uploadedInputs.length > 0 && (
+                        <p className="text-xs text-gray-500 mt-1 truncate">
+                            Inputs: {uploadedInputs.map(input => input.name).join(', ')}
+                        </p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-1 mt-3">
+                        {item.tags?.map(tag => (
+                            <span key={tag} className="flex items-center text-xs bg-gray-700 text-gray-300 rounded-full">
+                                <button onClick={() => onTagClick(tag)} title={`Show items tagged #${tag}`} className="pl-2 pr-1 py-0.5 hover:text-white">#{tag}</button>
+                                <button onClick={() => handleRemoveTag(tag)} title="Remove tag" className="pr-2 py-0.5 text-gray-500 hover:text-red-400">&times;</button>
+                            </span>
+                        ))}
+                        <TagInput suggestions={tagSuggestions.filter(tag => !item.tags?.includes(tag))} onAdd={handleAddTag} className="w-24" />
+                    </div>
                 </div>
                 <div className="flex items-center gap-2 mt-4 pt-4 border-t border-gray-700">
+                    <button onClick={handleToggleFavorite} title={item.isFavorite ? 'Unpin from top' : 'Favorite and pin to top'} className={`p-2 hover:bg-gray-700 rounded-full transition ${item.isFavorite ? 'text-yellow-400' : 'text-gray-400 hover:text-white'}`}><Icon name="star" className="w-5 h-5" fill={item.isFavorite ? 'currentColor' : 'none'}/></button>
                     <button onClick={handleDownload} title="Download" className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition"><Icon name="download" className="w-5 h-5"/></button>
+                    {item.type === 'image' && <a href={buildRouteHash('image-edit', { item: item.id })} title="Open in Image Editor" className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition"><Icon name="edit" className="w-5 h-5"/></a>}
+                    {item.type === 'video' && <a href={buildRouteHash('video-edit', { item: item.id })} title="Open in Video Editor" className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition"><Icon name="scissors" className="w-5 h-5"/></a>}
+                    {rerunHref && <a href={rerunHref} title="Re-run with these settings" className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition"><Icon name="refresh" className="w-5 h-5"/></a>}
                     {item.type === 'text' && <button onClick={handleCopy} title="Copy Text" className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition"><Icon name="copy" className="w-5 h-5"/></button>}
+                    {(item.type === 'text' || item.type === 'image') && <SendToMenu kind={item.type} getPayload={getHandoffPayload} className="max-w-[7rem]" />}
                     <div className="flex-grow"></div>
                     {copied && <span className="text-xs text-green-400">Copied!</span>}
+                    {downloadError && <span className="text-xs text-red-400">{downloadError}</span>}
                     <button onClick={() => deleteItem(item.id)} title="Delete" className="p-2 text-red-500 hover:text-red-400 hover:bg-gray-700 rounded-full transition"><Icon name="trash" className="w-5 h-5"/></button>
                 </div>
             </div>
@@ -67,58 +193,433 @@ const SavedItemCard: React.FC<{ item: SavedItem }> = ({ item }) => {
     )
 }
 
+const sortOptions: { value: LibrarySort; label: string }[] = [
+    { value: 'newest', label: 'Newest first' },
+    { value: 'oldest', label: 'Oldest first' },
+    { value: 'type', label: 'Type' },
+    { value: 'name', label: 'Name (prompt)' },
+];
+
+const conflictOptions: { value: ConflictStrategy; label: string }[] = [
+    { value: 'skip', label: 'Keep my versions' },
+    { value: 'replace', label: 'Replace with the archive versions' },
+    { value: 'keep-both', label: 'Keep both' },
+];
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
 
 export const MyLibrary: React.FC = () => {
-    const { savedItems } = useSavedContent();
+    const { savedItems, isLoading, storageUsage, collections, createCollection, renameCollection, deleteCollection, updateItems, deleteItems, importEntries } = useSavedContent();
     const [searchQuery, setSearchQuery] = useState('');
+    const [sort, setSort] = useState<LibrarySort>('newest');
+    const [highlightedId, setHighlightedId] = useState<string | null>(null);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [newCollectionName, setNewCollectionName] = useState<string | null>(null);
+    const [archiveStatus, setArchiveStatus] = useState<{ isError: boolean; message: string } | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [isReadingArchive, setIsReadingArchive] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+    const [conflictStrategy, setConflictStrategy] = useState<ConflictStrategy>('skip');
+    const importInputRef = useRef<HTMLInputElement>(null);
 
-    const filteredItems = savedItems.filter(item => {
-        const query = searchQuery.toLowerCase();
+    const query = useMemo(() => parseLibraryQuery(searchQuery), [searchQuery]);
+    const filteredItems = useMemo(
+        () => sortLibraryItems(savedItems.filter(item => matchesLibraryQuery(item, query, collections)), sort),
+        [savedItems, query, collections, sort]
+    );
+    const allTags = useMemo(() => Array.from(new Set(savedItems.flatMap(item => item.tags ?? []))).sort(), [savedItems]);
+    const collectionNames = useMemo(() => new Map(collections.map(c => [c.id, c.name])), [collections]);
+
+    const activeCollectionName = getQueryFacet(searchQuery, 'in');
+    const activeCollection = collections.find(c => c.name.toLowerCase() === activeCollectionName?.toLowerCase());
+    const selectedItems = savedItems.filter(item => selectedIds.has(item.id));
+
+    // Drop selections for items that were deleted.
+    useEffect(() => {
+        setSelectedIds(prev => {
+            const existing = new Set(savedItems.map(item => item.id));
+            const next = new Set([...prev].filter(id => existing.has(id)));
+            return next.size === prev.size ? prev : next;
+        });
+    }, [savedItems]);
+
+    // Jumping to a parent clears the search so its card is guaranteed to be rendered.
+    const handleShowItem = (id: string) => {
+        setSearchQuery('');
+        setHighlightedId(id);
+    };
+
+    useEffect(() => {
+        if (!highlightedId) return;
+        document.getElementById(`library-item-${highlightedId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        const timer = window.setTimeout(() => setHighlightedId(null), 2000);
+        return () => window.clearTimeout(timer);
+    }, [highlightedId]);
+
+    const setFacet = (key: string, value: string | null) => setSearchQuery(prev => setQueryFacet(prev, key, value));
+
+    const handleTagClick = (tag: string) => {
+        if (!query.tags.includes(tag)) setSearchQuery(prev => `${prev} tag:${tag}`.trim());
+    };
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const handleCreateCollection = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newCollectionName?.trim();
+        if (!name) {
+            setNewCollectionName(null);
+            return;
+        }
+        if (collections.some(c => c.name.toLowerCase() === name.toLowerCase())) {
+            setFacet('in', name);
+            setNewCollectionName(null);
+            return;
+        }
+        const collection = await createCollection(name);
+        if (collection) {
+            if (selectedIds.size > 0) {
+                await updateItems([...selectedIds], item => ({ ...item, collectionId: collection.id }));
+            }
+            setFacet('in', collection.name);
+        }
+        setNewCollectionName(null);
+    };
+
+    const handleRenameCollection = async () => {
+        if (!activeCollection) return;
+        const name = window.prompt('Rename collection', activeCollection.name)?.trim();
+        if (!name || name === activeCollection.name) return;
+        if (collections.some(c => c.id !== activeCollection.id && c.name.toLowerCase() === name.toLowerCase())) {
+            window.alert(`A collection called "${name}" already exists.`);
+            return;
+        }
+        await renameCollection(activeCollection.id, name);
+        setFacet('in', name);
+    };
+
+    const handleDeleteCollection = async () => {
+        if (!activeCollection) return;
+        if (!window.confirm(`Delete the "${activeCollection.name}" collection? Its items stay in your library.`)) return;
+        await deleteCollection(activeCollection.id);
+        setFacet('in', null);
+    };
+
+    const handleBulkTag = (tag: string) =>
+        updateItems([...selectedIds], item => item.tags?.includes(tag) ? item : { ...item, tags: [...(item.tags ?? []), tag] });
+
+    const handleBulkMove = (collectionId: string) =>
+        updateItems([...selectedIds], ({ collectionId: _previous, ...item }) => collectionId ? { ...item, collectionId } : item);
+
+    const handleBulkFavorite = () => {
+        const makeFavorite = selectedItems.some(item => !item.isFavorite);
+        updateItems([...selectedIds], item => ({ ...item, isFavorite: makeFavorite }));
+    };
+
+    const handleBulkDelete = async () => {
+        if (!window.confirm(`Delete ${selectedIds.size} item${selectedIds.size === 1 ? '' : 's'}? This cannot be undone.`)) return;
+        await deleteItems([...selectedIds]);
+        setSelectedIds(new Set());
+    };
+
+    // A partial export only carries the collections its items belong to.
+    const handleExport = async (items: SavedItem[], isFullExport: boolean) => {
+        setIsExporting(true);
+        setArchiveStatus(null);
+        try {
+            const exportedCollections = isFullExport ? collections : collections.filter(c => items.some(item => item.collectionId === c.id));
+            const { archive, skipped } = await exportLibrary(items, exportedCollections);
+            downloadBlob(archive, `creator-ai-library-${new Date().toISOString().slice(0, 10)}.zip`);
+            setArchiveStatus({
+                isError: false,
+                message: `Exported ${plural(items.length - skipped, 'item')}.${skipped ? ` ${plural(skipped, 'item')} could not be read and ${skipped === 1 ? 'was' : 'were'} left out.` : ''}`,
+            });
+        } catch (error) {
+            console.error("Could not export the library", error);
+            setArchiveStatus({ isError: true, message: 'The export failed. Please try again.' });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleImportFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsReadingArchive(true);
+        setArchiveStatus(null);
+        setImportPlan(null);
+        try {
+            const archive = await readLibraryArchive(file);
+            setImportPlan(await planImport(archive, savedItems, collections));
+            setConflictStrategy('skip');
+        } catch (error) {
+            console.error("Could not read library archive", error);
+            setArchiveStatus({ isError: true, message: error instanceof ArchiveFormatError ? error.message : 'The archive could not be read.' });
+        } finally {
+            setIsReadingArchive(false);
+        }
+    };
+
+    const handleConfirmImport = async () => {
+        if (!importPlan) return;
+        setIsImporting(true);
+        const { entries, collections: newCollections } = resolveImport(importPlan, conflictStrategy, collections);
+        const imported = await importEntries(entries, newCollections);
+        const skipped = importPlan.duplicates.length + (conflictStrategy === 'skip' ? importPlan.conflicts.length : 0);
+        setArchiveStatus(imported < entries.length
+            ? { isError: true, message: `Only ${imported} of ${plural(entries.length, 'item')} could be imported.` }
+            : { isError: false, message: `Imported ${plural(imported, 'item')}.${skipped ? ` Skipped ${skipped} already in your library.` : ''}` });
+        setImportPlan(null);
+        setIsImporting(false);
+    };
+
+    const collectionChip = (label: string, value: string | null, count: number) => {
+        const isActive = (activeCollectionName?.toLowerCase() ?? null) === (value?.toLowerCase() ?? null);
         return (
-            item.prompt.toLowerCase().includes(query) ||
-            item.type.toLowerCase().includes(query)
+            <button
+                key={label}
+                onClick={() => setFacet('in', value)}
+                className={`py-1 px-3 text-sm rounded-full border transition ${isActive ? 'bg-red-600 border-red-600 text-white' : 'border-gray-600 text-gray-300 hover:border-gray-400'}`}
+            >
+                {label} <span className="opacity-70">{count}</span>
+            </button>
         );
-    });
+    };
 
     return (
         <div className="max-w-7xl mx-auto">
             <h2 className="text-3xl font-bold mb-6 text-red-400">My Library</h2>
             <p className="mb-6 text-gray-400">
-                Here are all your saved creations. You can download, copy, or delete them at any time.
+                Here are all your saved creations. Organize them into collections, tag and favorite them, and download, copy, or delete them at any time.
             </p>
 
+            <div className="mb-6 flex flex-wrap justify-center items-center gap-3">
+                <button
+                    onClick={() => handleExport(savedItems, true)}
+                    disabled={isExporting || savedItems.length === 0}
+                    className="flex items-center gap-2 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isExporting ? <Spinner size="sm" /> : <Icon name="download" className="w-4 h-4" />} Export Library
+                </button>
+                <button
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={isReadingArchive || isImporting}
+                    className="flex items-center gap-2 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isReadingArchive ? <Spinner size="sm" /> : <Icon name="upload" className="w-4 h-4" />} Import Archive
+                </button>
+                <input type="file" ref={importInputRef} onChange={handleImportFileChange} accept=".zip,application/zip" className="hidden" />
+            </div>
+
+            {archiveStatus && (
+                <div className={`mb-6 max-w-lg mx-auto p-3 text-sm rounded-lg border flex justify-between gap-3 ${archiveStatus.isError ? 'bg-red-900/50 border-red-700 text-red-300' : 'bg-green-900/40 border-green-700 text-green-300'}`}>
+                    <span>{archiveStatus.message}</span>
+                    <button onClick={() => setArchiveStatus(null)} className="opacity-70 hover:opacity-100">&times;</button>
+                </div>
+            )}
+
+            {importPlan && (
+                <div className="mb-6 max-w-lg mx-auto p-4 bg-gray-800 border border-gray-600 rounded-lg text-sm space-y-3">
+                    <h3 className="text-lg font-semibold text-red-400">Import Archive</h3>
+                    <p className="text-gray-400">Exported {new Date(importPlan.archive.exportedAt).toLocaleString()}.</p>
+                    <ul className="text-gray-300 space-y-1">
+                        <li>{plural(importPlan.newEntries.length, 'new item')} will be added.</li>
+                        {importPlan.duplicates.length > 0 && <li>{plural(importPlan.duplicates.length, 'item')} already in your library will be skipped.</li>}
+                        {importPlan.archive.missingMedia > 0 && <li className="text-yellow-400">{plural(importPlan.archive.missingMedia, 'item')} can't be imported because the file is missing from the archive.</li>}
+                    </ul>
+                    {importPlan.conflicts.length > 0 && (
+                        <fieldset className="space-y-1">
+                            <legend className="text-gray-300 mb-1">
+                                {plural(importPlan.conflicts.length, 'item')} in the archive {importPlan.conflicts.length === 1 ? 'differs' : 'differ'} from the copy in your library:
+                            </legend>
+                            {conflictOptions.map(option => (
+                                <label key={option.value} className="flex items-center gap-2 text-gray-300">
+                                    <input type="radio" name="conflictStrategy" checked={conflictStrategy === option.value} onChange={() => setConflictStrategy(option.value)} className="accent-red-500" />
+                                    {option.label}
+                                </label>
+                            ))}
+                        </fieldset>
+                    )}
+                    <div className="flex justify-end gap-2 pt-2">
+                        <button onClick={() => setImportPlan(null)} disabled={isImporting} className="py-2 px-4 text-gray-300 hover:text-white transition">Cancel</button>
+                        <button
+                            onClick={handleConfirmImport}
+                            disabled={isImporting || (importPlan.newEntries.length === 0 && (importPlan.conflicts.length === 0 || conflictStrategy === 'skip'))}
+                            className="flex items-center gap-2 py-2 px-4 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isImporting ? <Spinner size="sm" /> : 'Import'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {storageUsage && storageUsage.quota > 0 && (
+                <div className="mb-6 max-w-lg mx-auto text-sm text-gray-400">
+                    <div className="flex justify-between mb-1">
+                        <span>Storage used</span>
+                        <span>{formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)}</span>
+                    </div>
+                    <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+                        <div className="h-full bg-red-500" style={{ width: `${Math.min(100, (storageUsage.usage / storageUsage.quota) * 100)}%` }} />
+                    </div>
+                </div>
+            )}
+
             {savedItems.length > 0 && (
-                 <div className="mb-8 max-w-lg mx-auto">
+                <div className="mb-8 space-y-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                        {collectionChip('All', null, savedItems.length)}
+                        {collectionChip('Unfiled', 'unfiled', savedItems.filter(item => !item.collectionId).length)}
+                        {collections.map(c => collectionChip(c.name, c.name, savedItems.filter(item => item.collectionId === c.id).length))}
+                        {newCollectionName === null ? (
+                            <button onClick={() => setNewCollectionName('')} className="py-1 px-3 text-sm rounded-full border border-dashed border-gray-600 text-gray-400 hover:text-white hover:border-gray-400 transition">
+                                + New collection
+                            </button>
+                        ) : (
+                            <form onSubmit={handleCreateCollection} className="flex items-center gap-1">
+                                <input
+                                    autoFocus
+                                    type="text"
+                                    value={newCollectionName}
+                                    onChange={(e) => setNewCollectionName(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Escape' && setNewCollectionName(null)}
+                                    placeholder={selectedIds.size > 0 ? `Name (adds ${selectedIds.size} selected)` : 'Collection name'}
+                                    className="py-1 px-3 text-sm bg-gray-800 border border-gray-600 rounded-full focus:ring-1 focus:ring-red-500 focus:border-red-500"
+                                />
+                                <button type="submit" className="py-1 px-3 text-sm bg-red-600 hover:bg-red-700 text-white rounded-full transition">Create</button>
+                            </form>
+                        )}
+                        {activeCollection && (
+                            <>
+                                <button onClick={handleRenameCollection} className="py-1 px-2 text-sm text-gray-400 hover:text-white transition">Rename</button>
+                                <button onClick={handleDeleteCollection} className="py-1 px-2 text-sm text-red-500 hover:text-red-400 transition">Delete collection</button>
+                            </>
+                        )}
+                    </div>
+
                     <input
                         type="text"
                         value={searchQuery}
                         onChange={(e) => setSearchQuery(e.target.value)}
-                        placeholder="Search by prompt or type (image, video, text)..."
+                        placeholder='Search prompts, or filter with type:image tag:summer in:"Client A" is:favorite after:2024-06-01'
                         className="w-full p-3 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition"
                     />
+
+                    <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+                        <select
+                            value={query.types.length === 1 ? query.types[0] : ''}
+                            onChange={(e) => setFacet('type', e.target.value || null)}
+                            className="p-2 bg-gray-800 border border-gray-700 rounded-lg"
+                        >
+                            <option value="">All types</option>
+                            <option value="image">Images</option>
+                            <option value="video">Videos</option>
+                            <option value="audio">Audio</option>
+                            <option value="text">Text</option>
+                        </select>
+                        <label className="flex items-center gap-2">
+                            From
+                            <input type="date" value={query.after ?? ''} onChange={(e) => setFacet('after', e.target.value || null)} className="p-2 bg-gray-800 border border-gray-700 rounded-lg" />
+                        </label>
+                        <label className="flex items-center gap-2">
+                            To
+                            <input type="date" value={query.before ?? ''} onChange={(e) => setFacet('before', e.target.value || null)} className="p-2 bg-gray-800 border border-gray-700 rounded-lg" />
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={query.favoritesOnly} onChange={(e) => setFacet('is', e.target.checked ? 'favorite' : null)} className="accent-red-500" />
+                            Favorites only
+                        </label>
+                        <div className="flex-grow"></div>
+                        <label className="flex items-center gap-2">
+                            Sort
+                            <select value={sort} onChange={(e) => setSort(e.target.value as LibrarySort)} className="p-2 bg-gray-800 border border-gray-700 rounded-lg">
+                                {sortOptions.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                            </select>
+                        </label>
+                        {searchQuery && (
+                            <button onClick={() => setSearchQuery('')} className="text-red-400 hover:text-red-300 transition">Clear filters</button>
+                        )}
+                    </div>
+
+                    {selectedIds.size > 0 && (
+                        <div className="sticky top-0 z-20 flex flex-wrap items-center gap-3 p-3 bg-gray-900 border border-red-700 rounded-lg text-sm">
+                            <span className="font-semibold">{selectedIds.size} selected</span>
+                            <button onClick={() => setSelectedIds(new Set(filteredItems.map(item => item.id)))} className="text-gray-400 hover:text-white transition">
+                                Select all shown ({filteredItems.length})
+                            </button>
+                            <div className="flex items-center gap-1">
+                                <Icon name="tag" className="w-4 h-4 text-gray-400" />
+                                <TagInput suggestions={allTags} onAdd={handleBulkTag} placeholder="Tag selected..." className="w-32" />
+                            </div>
+                            <select
+                                value=""
+                                onChange={(e) => e.target.value !== '' && handleBulkMove(e.target.value === 'none' ? '' : e.target.value)}
+                                className="p-1 bg-gray-800 border border-gray-700 rounded-md"
+                            >
+                                <option value="">Move to...</option>
+                                <option value="none">No collection</option>
+                                {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </select>
+                            <button onClick={() => handleExport(selectedItems, false)} disabled={isExporting} className="flex items-center gap-1 text-gray-300 hover:text-white transition disabled:opacity-50">
+                                <Icon name="download" className="w-4 h-4" /> Export
+                            </button>
+                            <button onClick={handleBulkFavorite} className="flex items-center gap-1 text-gray-300 hover:text-yellow-400 transition">
+                                <Icon name="star" className="w-4 h-4" />
+                                {selectedItems.some(item => !item.isFavorite) ? 'Favorite' : 'Unfavorite'}
+                            </button>
+                            <div className="flex-grow"></div>
+                            <button onClick={handleBulkDelete} className="flex items-center gap-1 text-red-500 hover:text-red-400 transition">
+                                <Icon name="trash" className="w-4 h-4" /> Delete
+                            </button>
+                            <button onClick={() => setSelectedIds(new Set())} className="text-gray-400 hover:text-white transition">Clear selection</button>
+                        </div>
+                    )}
                 </div>
             )}
 
-            {savedItems.length === 0 ? (
+            {isLoading ? (
+                <div className="flex justify-center py-16"><Spinner /></div>
+            ) : savedItems.length === 0 ? (
                 <div className="text-center py-16 px-6 bg-gray-800 rounded-lg">
                     <Icon name="library" className="w-16 h-16 mx-auto text-gray-600 mb-4" />
                     <h3 className="text-xl font-semibold text-white">Your Library is Empty</h3>
                     <p className="text-gray-400 mt-2">
-                        Start creating images, videos, or text content, and save them to see them here!
+                        Start creating images, videos, audio, or text content, and save them to see them here!
                     </p>
                 </div>
             ) : filteredItems.length > 0 ? (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                    {filteredItems.map(item => <SavedItemCard key={item.id} item={item}/>)}
+                    {filteredItems.map(item => (
+                        <SavedItemCard
+                            key={item.id}
+                            item={item}
+                            isHighlighted={item.id === highlightedId}
+                            isSelected={selectedIds.has(item.id)}
+                            collectionName={item.collectionId ? collectionNames.get(item.collectionId) : undefined}
+                            tagSuggestions={allTags}
+                            onShowItem={handleShowItem}
+                            onToggleSelected={toggleSelected}
+                            onTagClick={handleTagClick}
+                        />
+                    ))}
                 </div>
             ) : (
                 <div className="text-center py-16 px-6 bg-gray-800 rounded-lg">
                      <h3 className="text-xl font-semibold text-white">No Results Found</h3>
                     <p className="text-gray-400 mt-2">
-                        No saved items match your search for "{searchQuery}".
+                        No saved items match "{searchQuery}".
                     </p>
                 </div>
             )}
         </div>
     );
-};
\ No newline at end of file
+};
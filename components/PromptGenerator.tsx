@@ -2,6 +2,10 @@ import React, { useState } from 'react';
 import { getFastResponse } from '../services/geminiService';
 import { Spinner } from './common/Spinner';
 import { Icon } from './common/Icon';
+import { SendToMenu } from './common/SendToMenu';
+import { BrandVoiceSelector } from './common/BrandVoiceSelector';
+import { useBrandVoice } from '../contexts/BrandVoiceContext';
+import { getErrorMessage } from '../services/apiErrors';
 
 const styles = ['Cinematic', 'Photographic', 'Anime', 'Fantasy', 'Sci-Fi', 'Cartoonish', 'Minimalist', 'Retro'];
 const tones = ['Humorous', 'Epic', 'Whimsical', 'Mysterious', 'Dark', 'Serene', 'Action-packed', 'Romantic'];
@@ -18,6 +22,7 @@ export const PromptGenerator: React.FC = () => {
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+    const { activeBrandVoice } = useBrandVoice();
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -36,11 +41,11 @@ Each prompt must be on a new line and should not have any numbering (e.g., no '1
 Crucially, each prompt MUST include realistic camera and lens specifications (e.g., Shot on Sony A7 IV with a G-Master 50mm f/1.2 lens), specific camera settings (e.g., aperture f/1.8, shutter speed 1/200s, ISO 100), and a detailed description of the lighting setup (e.g., 'lit with a single large octabox for soft, dramatic light').`;
         
         try {
-            const response = await getFastResponse(aiPrompt);
+            const response = await getFastResponse(aiPrompt, activeBrandVoice);
             const prompts = response.split('\n').filter(p => p.trim() !== '');
             setGeneratedPrompts(prompts);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+            setError(getErrorMessage(err, 'An unknown error occurred.'));
         } finally {
             setIsLoading(false);
         }
@@ -60,6 +65,7 @@ Crucially, each prompt MUST include realistic camera and lens specifications (e.
                 Stuck on what to create? Describe an idea, select a profession, style, and tone, and let the AI generate hyper-realistic, detailed prompts complete with camera specs to kickstart your next project.
             </p>
             <form onSubmit={handleSubmit} className="p-6 bg-gray-800 border border-gray-700 rounded-lg space-y-4">
+                <BrandVoiceSelector />
                 <div>
                     <label htmlFor="idea" className="block text-sm font-medium text-gray-300 mb-2">
                         Your Idea or Keywords
@@ -152,6 +158,7 @@ Crucially, each prompt MUST include realistic camera and lens specifications (e.
                         {generatedPrompts.map((prompt, index) => (
                             <div key={index} className="flex items-center gap-4 p-4 bg-gray-800 border border-gray-700 rounded-lg">
                                 <p className="flex-grow text-gray-300">{prompt}</p>
+                                <SendToMenu kind="text" getPayload={() => ({ kind: 'text', text: prompt })} />
                                 <button onClick={() => handleCopy(prompt, index)} title="Copy prompt" className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition">
                                     {copiedIndex === index ? <span className="text-xs text-green-400">Copied!</span> : <Icon name="copy" className="w-5 h-5" />}
                                 </button>
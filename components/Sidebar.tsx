@@ -1,8 +1,9 @@
 import React from 'react';
 import { Icon } from './common/Icon';
 import { Logo } from './common/Logo';
+import { ProviderId, providers } from '../services/aiProvider';
 
-export type View = 'chat' | 'prompt-gen' | 'image-gen' | 'image-edit' | 'headshot-gen' | 'live-assistant' | 'content-analyzer' | 'tts' | 'library';
+export type View = 'chat' | 'prompt-gen' | 'image-gen' | 'image-edit' | 'headshot-gen' | 'video-gen' | 'video-edit' | 'live-assistant' | 'content-analyzer' | 'tts' | 'voices' | 'brand-voice' | 'library';
 
 const navItems: { id: View; name: string; icon: string }[] = [
   { id: 'chat', name: 'Creator Chat', icon: 'chat' },
@@ -10,18 +11,28 @@ const navItems: { id: View; name: string; icon: string }[] = [
   { id: 'image-gen', name: 'Image Generation', icon: 'image' },
   { id: 'image-edit', name: 'Image Editing', icon: 'edit' },
   { id: 'headshot-gen', name: 'AI Photoshoot Lounge', icon: 'portrait' },
+  { id: 'video-gen', name: 'Video Generation', icon: 'video' },
+  { id: 'video-edit', name: 'Video Editing', icon: 'scissors' },
   { id: 'live-assistant', name: 'Live Assistant', icon: 'mic' },
   { id: 'content-analyzer', name: 'Content Analyzer', icon: 'analyze' },
   { id: 'tts', name: 'Text-to-Speech', icon: 'tts' },
+  { id: 'voices', name: 'Voices & Personas', icon: 'mic' },
+  { id: 'brand-voice', name: 'Brand Voice', icon: 'megaphone' },
   { id: 'library', name: 'My Library', icon: 'library' },
 ];
 
+export const views: View[] = navItems.map(item => item.id);
+
+export const viewName = (view: View): string => navItems.find(item => item.id === view)?.name ?? view;
+
 interface SidebarProps {
   activeView: View;
   setActiveView: (view: View) => void;
+  providerId: ProviderId;
+  setProviderId: (id: ProviderId) => void;
 }
 
-export const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView }) => {
+export const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView, providerId, setProviderId }) => {
   return (
     <div className="flex flex-col h-full bg-gray-800 text-gray-200">
       <div className="p-6">
@@ -49,7 +60,18 @@ export const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView }) =
           </button>
         ))}
       </nav>
-      <div className="p-4 border-t border-gray-700 text-xs text-gray-400">
+      <div className="p-4 border-t border-gray-700 text-xs text-gray-400 space-y-3">
+        <div>
+          <label htmlFor="aiProvider" className="block mb-1 font-medium text-gray-300">AI Backend</label>
+          <select
+            id="aiProvider"
+            value={providerId}
+            onChange={(e) => setProviderId(e.target.value as ProviderId)}
+            className="w-full p-2 bg-gray-900 border border-gray-700 rounded-lg text-gray-200 focus:ring-2 focus:ring-red-500 focus:border-red-500"
+          >
+            {Object.values(providers).map(provider => <option key={provider.id} value={provider.id}>{provider.name}</option>)}
+          </select>
+        </div>
         <p>&copy; 2024 <Logo className="text-xs" /> Creator AI</p>
       </div>
     </div>
@@ -1,60 +1,222 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { generateSpeech, analyzeVoiceStyle } from '../services/geminiService';
-import { decode, decodeAudioData } from '../utils/audioUtils';
-import { fileToBase64 } from '../utils/fileUtils';
+import { generateSpeech, generateDialogueLine, analyzeVoiceStyle, getModelId } from '../services/geminiService';
+import { isKnownVoice } from '../services/voiceCatalog';
+import { decode } from '../utils/audioUtils';
+import { pcmToWav } from '../utils/wavUtils';
+import { chunkText, dialogueSpeakers, formatSpeakerVoices, parseDialogue, parseSpeakerVoices, splitParagraphs } from '../utils/speechScript';
+import { downloadBlob, fileToBase64, slugify } from '../utils/fileUtils';
+import { buildCaptions, captionsToSrt, captionsToVtt } from '../utils/captionUtils';
+import { AudioCapture, concatPcm, startAudioCapture } from '../utils/audioCapture';
+import { useInputLevel } from '../hooks/useInputLevel';
+import { LevelMeter } from './common/LevelMeter';
 import { useSavedContent } from '../contexts/SavedContentContext';
+import { useVoiceSettings } from '../contexts/VoiceSettingsContext';
+import { VoiceSelect } from './common/VoiceSelect';
+import { CaptionEditor } from './common/CaptionEditor';
 import { Spinner } from './common/Spinner';
 import { Icon } from './common/Icon';
+import { getErrorMessage } from '../services/apiErrors';
+import { useRerunItem } from '../hooks/useRerunItem';
+import { useHandoff } from '../hooks/useHandoff';
+import { SegmentState, SegmentStatus, SpeechSegment, StitchedTrack, useSpeechTrack } from '../hooks/useSpeechTrack';
+import { Caption, GenerationMetadata } from '../types';
 
-export const TtsGenerator: React.FC = () => {
+const VOICE_SAMPLE_RATE = 16000;
+const MAX_VOICE_SAMPLE_SECONDS = 30;
+const SPEECH_SAMPLE_RATE = 24000;
+const DEFAULT_PAUSE_MS = 400;
+const MAX_PAUSE_MS = 2000;
+// Later speakers start on distinct voices so a new dialogue is easy to follow.
+const DIALOGUE_VOICES = ['Puck', 'Leda', 'Charon', 'Aoede'];
+
+type ScriptMode = 'single' | 'dialogue';
+
+const scriptModeOptions: { value: ScriptMode; label: string }[] = [
+  { value: 'single', label: 'Single Voice' },
+  { value: 'dialogue', label: 'Dialogue' },
+];
+
+// How a paragraph or line is shown when any of its parts is in that state, most urgent first.
+const partStatuses: { status: SegmentStatus; label: string; className: string }[] = [
+  { status: 'failed', label: 'Failed', className: 'text-red-400' },
+  { status: 'generating', label: 'Generating', className: 'text-blue-300 animate-pulse' },
+  { status: 'pending', label: 'Waiting', className: 'text-gray-400' },
+  { status: 'done', label: 'Ready', className: 'text-green-400' },
+];
+
+// Groups a track's parts back into the paragraphs or dialogue lines they came from.
+const groupParts = (segments: SegmentState[]) => {
+  const groups = new Map<number, { indexes: number[]; speaker?: string; text: string; statuses: SegmentStatus[] }>();
+  segments.forEach((segment, i) => {
+    const group = groups.get(segment.group);
+    if (group) {
+      group.indexes.push(i);
+      group.text += ` ${segment.text}`;
+      group.statuses.push(segment.status);
+    } else {
+      groups.set(segment.group, { indexes: [i], speaker: segment.speaker, text: segment.text, statuses: [segment.status] });
+    }
+  });
+  return Array.from(groups.values(), group => ({ ...group, display: partStatuses.find(({ status }) => group.statuses.includes(status))! }));
+};
+
+const DIALOGUE_PLACEHOLDER = `HOST: Welcome back to the show!
+GUEST: Thanks for having me.
+HOST: So, how did it all start?`;
+
+interface TtsGeneratorProps {
+  rerunItemId?: string; // library item whose script and voice settings pre-fill the form
+  handoffId?: string; // script sent from another tool
+}
+
+export const TtsGenerator: React.FC<TtsGeneratorProps> = ({ rerunItemId, handoffId }) => {
   const [text, setText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
+  const [audioMetadata, setAudioMetadata] = useState<GenerationMetadata | null>(null);
   const [isScriptSaved, setIsScriptSaved] = useState(false);
+  const [isAudioSaved, setIsAudioSaved] = useState(false);
+  const [captions, setCaptions] = useState<Caption[]>([]);
+  const [saveCaptions, setSaveCaptions] = useState(true);
+  const [playbackMs, setPlaybackMs] = useState(0);
   
   const [voiceSample, setVoiceSample] = useState<File | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analyzedStyle, setAnalyzedStyle] = useState<string | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordedSeconds, setRecordedSeconds] = useState(0);
+  const inputLevel = useInputLevel();
   
   const { saveItem } = useSavedContent();
+  const { defaultVoices } = useVoiceSettings();
+  // A per-script override of the default set in Voices & Personas.
+  const [voice, setVoice] = useState(defaultVoices.tts);
+  const [mode, setMode] = useState<ScriptMode>('single');
+  const [speakerVoices, setSpeakerVoices] = useState<Record<string, string>>({});
+  const [pauseMs, setPauseMs] = useState(DEFAULT_PAUSE_MS);
+  const track = useSpeechTrack();
 
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const dialogueLines = mode === 'dialogue' ? parseDialogue(text) : [];
+  const speakers = dialogueSpeakers(dialogueLines);
+  const voiceFor = (speaker: string) => {
+    const index = speakers.indexOf(speaker);
+    return speakerVoices[speaker] ?? (index <= 0 ? voice : DIALOGUE_VOICES[(index - 1) % DIALOGUE_VOICES.length]);
+  };
+
+  const audioElementRef = useRef<HTMLAudioElement>(null);
+  // Set by a full generation so the new track starts playing as soon as it is shown.
+  const shouldAutoplayRef = useRef(false);
   const voiceFileInputRef = useRef<HTMLInputElement>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const recordedChunksRef = useRef<Int16Array[]>([]);
+
+  useRerunItem(rerunItemId, item => {
+    // Saved captions keep the script they were made from in the prompt.
+    setText(item.type === 'text' && !item.metadata?.settings?.captions ? item.content : item.prompt);
+    const voiceStyle = item.metadata?.settings?.voiceStyle;
+    setAnalyzedStyle(voiceStyle ? String(voiceStyle) : null);
+    if (isKnownVoice(item.metadata?.voice)) setVoice(item.metadata.voice);
+    const settings = item.metadata?.settings;
+    setMode(settings?.mode === 'dialogue' ? 'dialogue' : 'single');
+    setSpeakerVoices(settings?.speakerVoices ? parseSpeakerVoices(String(settings.speakerVoices)) : {});
+    setPauseMs(typeof settings?.pauseMs === 'number' ? settings.pauseMs : DEFAULT_PAUSE_MS);
+  });
 
+  useHandoff(handoffId, payload => {
+    if (payload.kind === 'text') setText(payload.text);
+  });
+
+  // Each track gets a fresh object URL; the previous one is released once it's replaced or the studio closes.
+  useEffect(() => () => {
+    if (audioUrl) URL.revokeObjectURL(audioUrl);
+  }, [audioUrl]);
+
+  // Follows the player closely enough for captions to change on the right word.
   useEffect(() => {
-    audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    
-    return () => {
-        if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-            audioContextRef.current.close();
-        }
-    }
-  }, []);
-  
-  const playAudio = async (base64Audio: string) => {
-    if (!audioContextRef.current) return;
-    
-    if (audioContextRef.current.state === 'suspended') {
-      await audioContextRef.current.resume();
+    const audio = audioElementRef.current;
+    setPlaybackMs(0);
+    if (!audio) return;
+    let frame = 0;
+    const sync = () => setPlaybackMs(audio.currentTime * 1000);
+    const tick = () => {
+      sync();
+      frame = requestAnimationFrame(tick);
+    };
+    const onPlay = () => {
+      cancelAnimationFrame(frame);
+      tick();
+    };
+    const onPause = () => {
+      cancelAnimationFrame(frame);
+      sync();
+    };
+    audio.addEventListener('play', onPlay);
+    audio.addEventListener('pause', onPause);
+    audio.addEventListener('seeked', sync);
+    if (shouldAutoplayRef.current) {
+      shouldAutoplayRef.current = false;
+      audio.play().catch(err => console.error('Could not start playback:', err));
     }
+    return () => {
+      cancelAnimationFrame(frame);
+      audio.removeEventListener('play', onPlay);
+      audio.removeEventListener('pause', onPause);
+      audio.removeEventListener('seeked', sync);
+    };
+  }, [audioUrl]);
+
+  // Captions are timed from the parts' real audio, so each paragraph or line starts on cue.
+  const showTrack = (stitched: StitchedTrack) => {
+    const blob = pcmToWav(stitched.pcm, SPEECH_SAMPLE_RATE);
+    setAudioBlob(blob);
+    setAudioUrl(URL.createObjectURL(blob));
+    setCaptions(buildCaptions(stitched.parts.map(part => ({
+      text: part.segment.text,
+      speaker: part.segment.speaker,
+      startMs: part.startMs,
+      pcm: part.pcm,
+    })), SPEECH_SAMPLE_RATE));
+  };
+
+  const seekTo = (ms: number) => {
+    const audio = audioElementRef.current;
+    if (!audio) return;
+    audio.currentTime = ms / 1000;
+    audio.play().catch(err => console.error('Could not start playback:', err));
+  };
 
-    const decodedData = decode(base64Audio);
-    const audioBuffer = await decodeAudioData(decodedData, audioContextRef.current, 24000, 1);
-    
-    const source = audioContextRef.current.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(audioContextRef.current.destination);
-    source.start();
-
-    const blob = new Blob([decodedData], { type: 'audio/wav' });
-    const url = URL.createObjectURL(blob);
-    setAudioUrl(url);
+  const handleDownloadCaptions = (format: 'srt' | 'vtt') => {
+    const blob = format === 'srt'
+      ? new Blob([captionsToSrt(captions)], { type: 'application/x-subrip' })
+      : new Blob([captionsToVtt(captions)], { type: 'text/vtt' });
+    downloadBlob(blob, `${slugify(text) || 'voiceover'}.${format}`);
+  };
+
+  const handleSaveAudio = async () => {
+      if (!audioBlob) return;
+      // A failed save is reported by the storage error toast.
+      const saved = await saveItem({ type: 'audio', content: audioBlob, prompt: text, ...(audioMetadata && { metadata: audioMetadata }) });
+      if (!saved) return;
+      if (saveCaptions && captions.length > 0) {
+          const savedCaptions = await saveItem({
+              type: 'text',
+              content: captionsToSrt(captions),
+              prompt: text,
+              parentId: saved.id,
+              metadata: { ...audioMetadata, tool: 'tts', settings: { ...audioMetadata?.settings, captions: 'srt' } },
+          });
+          if (!savedCaptions) return;
+      }
+      setIsAudioSaved(true);
+      setTimeout(() => setIsAudioSaved(false), 2000);
   }
 
-  const handleSaveScript = () => {
+  const handleSaveScript = async () => {
       if(text) {
-          saveItem({ type: 'text', content: text, prompt: 'Text-to-Speech Script' });
+          const saved = await saveItem({ type: 'text', content: text, prompt: 'Text-to-Speech Script', metadata: { tool: 'tts' } });
+          if (!saved) return;
           setIsScriptSaved(true);
           setTimeout(() => setIsScriptSaved(false), 2000);
       }
@@ -72,6 +234,45 @@ export const TtsGenerator: React.FC = () => {
     }
   };
 
+  const stopRecording = () => {
+    const capture = captureRef.current;
+    if (!capture) return;
+    capture.stop();
+    captureRef.current = null;
+    setIsRecording(false);
+    inputLevel.reset();
+    const pcm = concatPcm(recordedChunksRef.current);
+    recordedChunksRef.current = [];
+    if (pcm.byteLength === 0) return;
+    setVoiceSample(new File([pcmToWav(pcm, capture.sampleRate)], 'recorded-voice-sample.wav', { type: 'audio/wav' }));
+    setAnalyzedStyle(null);
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    recordedChunksRef.current = [];
+    setRecordedSeconds(0);
+    try {
+      captureRef.current = await startAudioCapture({
+        sampleRate: VOICE_SAMPLE_RATE,
+        onChunk: chunk => {
+          inputLevel.update(chunk);
+          recordedChunksRef.current.push(chunk.pcm);
+          const samples = recordedChunksRef.current.reduce((total, c) => total + c.length, 0);
+          setRecordedSeconds(Math.floor(samples / VOICE_SAMPLE_RATE));
+          // Keeps samples short, which is all the style analysis needs.
+          if (samples >= MAX_VOICE_SAMPLE_SECONDS * VOICE_SAMPLE_RATE) stopRecording();
+        },
+      });
+      setIsRecording(true);
+    } catch (err) {
+      console.error('Could not capture the microphone:', err);
+      setError('The microphone could not be opened. Check your browser permissions and try again.');
+    }
+  };
+
+  useEffect(() => () => captureRef.current?.stop(), []);
+
   const handleAnalyzeVoice = async () => {
     if (!voiceSample) {
         setError("Please upload an audio sample first.");
@@ -85,85 +286,227 @@ export const TtsGenerator: React.FC = () => {
         const style = await analyzeVoiceStyle(base64, voiceSample.type);
         setAnalyzedStyle(style);
     } catch (err) {
-        setError(err instanceof Error ? err.message : 'An unknown error occurred during analysis.');
+        setError(getErrorMessage(err, 'An unknown error occurred during analysis.'));
     } finally {
         setIsAnalyzing(false);
     }
   };
 
+  // Long paragraphs and lines are split into sentence-aligned parts. Paragraphs run
+  // straight on from each other; dialogue lines get the chosen pause between them.
+  // Part keys include the voice settings, so changing a voice regenerates everything.
+  const buildTrack = (): { segments: SpeechSegment[]; generate: (segment: SpeechSegment) => Promise<Uint8Array>; gapMs: number; metadata: GenerationMetadata } => {
+    if (mode === 'dialogue') {
+      const cast = speakers.map(speaker => ({ speaker, voice: voiceFor(speaker) }));
+      const castSetting = formatSpeakerVoices(Object.fromEntries(cast.map(member => [member.speaker, member.voice])));
+      return {
+        segments: dialogueLines.flatMap((line, group) => chunkText(line.text).map(chunk => ({
+          key: `dialogue|${castSetting}|${line.speaker}|${chunk}`,
+          group,
+          speaker: line.speaker,
+          text: chunk,
+        }))),
+        generate: async segment => decode(await generateDialogueLine({ speaker: segment.speaker ?? '', text: segment.text }, cast)),
+        gapMs: pauseMs,
+        metadata: {
+          tool: 'tts',
+          model: getModelId('speech'),
+          voice: Array.from(new Set(cast.map(member => member.voice))).join(', '),
+          settings: { mode: 'dialogue', speakerVoices: castSetting, pauseMs },
+        },
+      };
+    }
+    const style = analyzedStyle;
+    return {
+      segments: splitParagraphs(text).flatMap((paragraph, group) => chunkText(paragraph).map(chunk => ({
+        key: `single|${voice}|${style ?? ''}|${chunk}`,
+        group,
+        text: chunk,
+      }))),
+      generate: async segment => decode(await generateSpeech(segment.text, style, voice)),
+      gapMs: 0,
+      metadata: {
+        tool: 'tts',
+        model: getModelId('speech'),
+        voice,
+        ...(style && { settings: { voiceStyle: style } }),
+        ...(voiceSample && style && { inputs: [{ name: voiceSample.name }] }),
+      },
+    };
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!text.trim()) {
       setError('Please enter some text.');
       return;
     }
+    if (mode === 'dialogue' && dialogueLines.some(line => !line.speaker)) {
+      setError('Start the script with a speaker label, like "HOST:".');
+      return;
+    }
     setIsLoading(true);
     setError(null);
     setAudioUrl(null);
+    setAudioBlob(null);
+    setCaptions([]);
     try {
-      const base64Audio = await generateSpeech(text, analyzedStyle);
-      await playAudio(base64Audio);
+      const { metadata, ...settings } = buildTrack();
+      setAudioMetadata(metadata);
+      const stitched = await track.generate({ ...settings, sampleRate: SPEECH_SAMPLE_RATE });
+      if (stitched) {
+        shouldAutoplayRef.current = true;
+        showTrack(stitched);
+      } else setError('Some parts of the script could not be generated. Retry them below; the finished parts are kept.');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      setError(getErrorMessage(err, 'An unknown error occurred.'));
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Redoes parts with the settings the track was generated with; the rest of the audio is reused.
+  const handleRegenerate = async (indexes: number[]) => {
+    setError(null);
+    const stitched = await track.regenerate(indexes);
+    if (stitched) showTrack(stitched);
+    else setError('Some parts of the script could not be generated. Retry them below; the finished parts are kept.');
+  };
+
+  const partGroups = groupParts(track.segments);
+  const readyParts = track.segments.filter(segment => segment.status === 'done').length;
+  const failedParts = track.segments.flatMap((segment, i) => segment.status === 'failed' ? [i] : []);
+
   return (
     <div className="max-w-4xl mx-auto">
       <h2 className="text-3xl font-bold mb-6 text-red-400">Text-to-Speech Studio</h2>
       <p className="mb-6 text-gray-400">
-        Generate high-quality voiceovers for your videos or podcasts. Type your script, and let the AI create a natural-sounding audio track.
+        Generate high-quality voiceovers for your videos or podcasts. Type your script, or write a dialogue with a voice for each speaker, and let the AI create a natural-sounding audio track with matching captions.
       </p>
       
-      <div className="mb-6 p-4 bg-gray-800 border border-gray-700 rounded-lg">
-          <h3 className="text-lg font-semibold mb-3 text-red-400">Personalize Voice (Experimental)</h3>
-          <p className="text-sm text-gray-400 mb-3">Upload a short audio clip of a voice, and the AI will analyze its style to influence the generated speech.</p>
-          <div className="flex flex-col sm:flex-row items-center gap-3">
-              <button
-                  type="button"
-                  onClick={() => voiceFileInputRef.current?.click()}
-                  className="w-full sm:w-auto flex-grow py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition truncate"
-              >
-                  <Icon name="upload" className="w-5 h-5 mr-2 inline-block" />
-                  {voiceSample ? voiceSample.name : 'Upload Voice Sample'}
-              </button>
-              <input type="file" ref={voiceFileInputRef} onChange={handleVoiceFileChange} accept="audio/*" className="hidden" />
-              <button
-                  type="button"
-                  onClick={handleAnalyzeVoice}
-                  disabled={!voiceSample || isAnalyzing}
-                  className="w-full sm:w-auto flex justify-center items-center py-2 px-4 bg-black hover:bg-gray-800 border border-gray-600 text-white font-semibold rounded-lg transition disabled:bg-gray-900 disabled:text-gray-500"
-              >
-                  {isAnalyzing ? <Spinner size="sm" /> : 'Analyze Voice Style'}
-              </button>
-          </div>
-          {analyzedStyle && (
-              <div className="mt-3 text-sm text-green-400 bg-green-900/50 p-2 rounded-md">
-                  <strong>Detected Style:</strong> {analyzedStyle}
-                  <p className="text-xs text-green-300">This style will be used for the next audio generation.</p>
-              </div>
-          )}
-      </div>
+      {mode === 'single' && (
+        <div className="mb-6 p-4 bg-gray-800 border border-gray-700 rounded-lg">
+            <h3 className="text-lg font-semibold mb-3 text-red-400">Personalize Voice (Experimental)</h3>
+            <p className="text-sm text-gray-400 mb-3">Upload or record a short audio clip of a voice, and the AI will analyze its style to influence the generated speech.</p>
+            <div className="flex flex-col sm:flex-row items-center gap-3">
+                <button
+                    type="button"
+                    onClick={() => voiceFileInputRef.current?.click()}
+                    disabled={isRecording}
+                    className="w-full sm:w-auto flex-grow py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition truncate disabled:opacity-50"
+                >
+                    <Icon name="upload" className="w-5 h-5 mr-2 inline-block" />
+                    {voiceSample ? voiceSample.name : 'Upload Voice Sample'}
+                </button>
+                <input type="file" ref={voiceFileInputRef} onChange={handleVoiceFileChange} accept="audio/*" className="hidden" />
+                <button
+                    type="button"
+                    onClick={isRecording ? stopRecording : startRecording}
+                    disabled={isAnalyzing}
+                    className={`w-full sm:w-auto flex justify-center items-center gap-2 py-2 px-4 font-semibold rounded-lg transition disabled:opacity-50 ${isRecording ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-white'}`}
+                >
+                    <Icon name={isRecording ? 'stop' : 'mic'} className="w-5 h-5" />
+                    {isRecording ? `Stop (${recordedSeconds}s)` : 'Record'}
+                </button>
+                <button
+                    type="button"
+                    onClick={handleAnalyzeVoice}
+                    disabled={!voiceSample || isAnalyzing || isRecording}
+                    className="w-full sm:w-auto flex justify-center items-center py-2 px-4 bg-black hover:bg-gray-800 border border-gray-600 text-white font-semibold rounded-lg transition disabled:bg-gray-900 disabled:text-gray-500"
+                >
+                    {isAnalyzing ? <Spinner size="sm" /> : 'Analyze Voice Style'}
+                </button>
+            </div>
+            {isRecording && <LevelMeter peak={inputLevel.peak} isClipping={inputLevel.isClipping} className="mt-3" />}
+            {analyzedStyle && (
+                <div className="mt-3 text-sm text-green-400 bg-green-900/50 p-2 rounded-md">
+                    <strong>Detected Style:</strong> {analyzedStyle}
+                    <p className="text-xs text-green-300">This style will be used for the next audio generation.</p>
+                </div>
+            )}
+        </div>
+      )}
 
       <form onSubmit={handleSubmit} className="space-y-4">
         <div>
-          <label htmlFor="tts-text" className="block text-sm font-medium text-gray-300 mb-2">
-            Text to Convert
-          </label>
+          <div className="flex items-center justify-between mb-2">
+            <label htmlFor="tts-text" className="block text-sm font-medium text-gray-300">
+              {mode === 'dialogue' ? 'Dialogue Script' : 'Text to Convert'}
+            </label>
+            <div className="flex rounded-lg overflow-hidden border border-gray-600 text-sm">
+              {scriptModeOptions.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setMode(option.value)}
+                  disabled={isLoading || isRecording}
+                  className={`py-1 px-3 disabled:opacity-50 ${mode === option.value ? 'bg-red-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
           <textarea
             id="tts-text"
             value={text}
             onChange={(e) => setText(e.target.value)}
-            placeholder="Enter your script here..."
+            placeholder={mode === 'dialogue' ? DIALOGUE_PLACEHOLDER : 'Enter your script here...'}
             className="w-full p-3 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition"
-            rows={6}
+            rows={mode === 'dialogue' ? 10 : 6}
           />
+          {mode === 'dialogue' && <p className="mt-1 text-xs text-gray-500">Start each line with the speaker's name and a colon. Lines without a label continue the line above.</p>}
         </div>
+        {mode === 'dialogue' ? (
+          <div className="p-4 bg-gray-800 border border-gray-700 rounded-lg space-y-3">
+            <h3 className="font-semibold text-red-400">Speakers</h3>
+            {speakers.length === 0 && <p className="text-sm text-gray-500">Speakers appear here as you write labelled lines.</p>}
+            {speakers.map(speaker => (
+              <div key={speaker} className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <label htmlFor={`tts-speaker-${speaker}`} className="sm:w-40 text-sm font-semibold truncate">
+                  {speaker} <span className="font-normal text-gray-500">({dialogueLines.filter(line => line.speaker === speaker).length} lines)</span>
+                </label>
+                <VoiceSelect
+                  id={`tts-speaker-${speaker}`}
+                  value={voiceFor(speaker)}
+                  onChange={selected => setSpeakerVoices(prev => ({ ...prev, [speaker]: selected }))}
+                  className="flex-1 sm:max-w-sm"
+                />
+              </div>
+            ))}
+            {speakers.length > 2 && (
+              <p className="text-xs text-yellow-300">Multi-speaker generation supports two speakers, so with {speakers.length} each line is voiced on its own.</p>
+            )}
+            <div>
+              <label htmlFor="tts-pause" className="block text-sm text-gray-300 mb-1">Pause between lines: {(pauseMs / 1000).toFixed(1)}s</label>
+              <input
+                id="tts-pause"
+                type="range"
+                min={0}
+                max={MAX_PAUSE_MS}
+                step={100}
+                value={pauseMs}
+                onChange={(e) => setPauseMs(Number(e.target.value))}
+                className="w-full sm:max-w-sm accent-red-500"
+              />
+            </div>
+          </div>
+        ) : (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="tts-voice" className="block text-sm font-medium text-gray-300">Voice</label>
+              {voice !== defaultVoices.tts && (
+                <button type="button" onClick={() => setVoice(defaultVoices.tts)} className="text-sm text-red-400 hover:underline">
+                  Use default ({defaultVoices.tts})
+                </button>
+              )}
+            </div>
+            <VoiceSelect id="tts-voice" value={voice} onChange={setVoice} className="sm:max-w-sm" />
+          </div>
+        )}
         <button
           type="submit"
-          disabled={isLoading}
+          disabled={isLoading || track.isGenerating}
           className="w-full flex justify-center items-center py-3 px-4 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition disabled:bg-red-400 disabled:cursor-not-allowed"
         >
           {isLoading ? <Spinner size="sm" /> : 'Generate Audio'}
@@ -172,24 +515,91 @@ export const TtsGenerator: React.FC = () => {
 
       {error && <div className="mt-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-lg">{error}</div>}
       
-      {isLoading && <div className="text-center mt-4"><p>Generating audio...</p></div>}
+      {isLoading && (
+        <div className="text-center mt-4">
+          <p>{track.segments.length > 1 ? `Generating audio... ${readyParts} of ${track.segments.length} parts ready` : 'Generating audio...'}</p>
+        </div>
+      )}
+
+      {(partGroups.length > 1 || failedParts.length > 0) && (
+        <div className="mt-6 p-4 bg-gray-800 border border-gray-700 rounded-lg">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold text-red-400">{partGroups.some(group => group.speaker) ? 'Lines' : 'Paragraphs'}</h3>
+            {failedParts.length > 0 && !track.isGenerating && (
+              <button onClick={() => handleRegenerate(failedParts)} className="flex items-center gap-2 py-1 px-3 text-sm bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition">
+                <Icon name="refresh" className="w-4 h-4" /> Retry Failed
+              </button>
+            )}
+          </div>
+          <ol className="space-y-2 max-h-80 overflow-y-auto">
+            {partGroups.map((group, i) => (
+              <li key={i} className="flex items-center gap-3 text-sm">
+                <span className={`w-20 shrink-0 text-xs font-semibold ${group.display.className}`}>{group.display.label}</span>
+                <p className="flex-1 min-w-0 truncate text-gray-300" title={group.text}>
+                  {group.speaker && <strong className="text-gray-200">{group.speaker}: </strong>}
+                  {group.text}
+                </p>
+                <button
+                  onClick={() => handleRegenerate(group.indexes)}
+                  disabled={track.isGenerating}
+                  title={group.display.status === 'failed' ? 'Try this part again' : 'Generate a new take of just this part'}
+                  className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition disabled:opacity-50"
+                >
+                  <Icon name="refresh" className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
 
       {audioUrl && (
         <div className="mt-8">
             <div className="flex justify-between items-center mb-4">
                 <h3 className="text-xl font-semibold">Generated Audio</h3>
-                 <button
-                    onClick={handleSaveScript}
-                    disabled={isScriptSaved}
-                    className="flex items-center gap-2 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition disabled:bg-green-600"
-                >
-                    <Icon name={isScriptSaved ? "check" : "save"} className="w-5 h-5" />
-                    {isScriptSaved ? 'Saved!' : 'Save Script'}
-                </button>
+                <div className="flex gap-2">
+                    <button
+                        onClick={handleSaveAudio}
+                        disabled={isAudioSaved}
+                        className="flex items-center gap-2 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition disabled:bg-green-600"
+                    >
+                        <Icon name={isAudioSaved ? "check" : "save"} className="w-5 h-5" />
+                        {isAudioSaved ? 'Saved!' : 'Save Audio'}
+                    </button>
+                    <button
+                        onClick={handleSaveScript}
+                        disabled={isScriptSaved}
+                        className="flex items-center gap-2 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition disabled:bg-green-600"
+                    >
+                        <Icon name={isScriptSaved ? "check" : "save"} className="w-5 h-5" />
+                        {isScriptSaved ? 'Saved!' : 'Save Script'}
+                    </button>
+                </div>
             </div>
-          <audio controls src={audioUrl} className="w-full">
+          <audio ref={audioElementRef} controls src={audioUrl} className="w-full">
             Your browser does not support the audio element.
           </audio>
+          {captions.length > 0 && (
+            <div className="mt-6 p-4 bg-gray-800 border border-gray-700 rounded-lg">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <h3 className="font-semibold text-red-400">Captions</h3>
+                <div className="flex flex-wrap items-center gap-2">
+                  <label className="flex items-center gap-2 mr-2 text-sm text-gray-300">
+                    <input type="checkbox" checked={saveCaptions} onChange={(e) => setSaveCaptions(e.target.checked)} className="accent-red-500" />
+                    Save with audio
+                  </label>
+                  <button onClick={() => handleDownloadCaptions('srt')} className="flex items-center gap-2 py-1 px-3 text-sm bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition">
+                    <Icon name="download" className="w-4 h-4" /> SRT
+                  </button>
+                  <button onClick={() => handleDownloadCaptions('vtt')} className="flex items-center gap-2 py-1 px-3 text-sm bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition">
+                    <Icon name="download" className="w-4 h-4" /> WebVTT
+                  </button>
+                </div>
+              </div>
+              <CaptionEditor captions={captions} onChange={setCaptions} playbackMs={playbackMs} onSeek={seekTo} />
+              <p className="mt-2 text-xs text-gray-500">Regenerating a part rebuilds the captions from the new audio, replacing any edits.</p>
+            </div>
+          )}
         </div>
       )}
     </div>
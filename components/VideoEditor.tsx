@@ -1,9 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useSavedContent } from '../contexts/SavedContentContext';
+import { getMediaFile } from '../services/libraryStore';
+import { useRerunItem } from '../hooks/useRerunItem';
 import { Spinner } from './common/Spinner';
 import { Icon } from './common/Icon';
 
-export const VideoEditor: React.FC = () => {
+interface VideoEditorProps {
+    initialItemId?: string; // library item to open for editing
+    rerunItemId?: string; // library item whose edit settings are applied once the video loads
+}
+
+export const VideoEditor: React.FC<VideoEditorProps> = ({ initialItemId, rerunItemId }) => {
     const [file, setFile] = useState<File | null>(null);
     const [videoSrc, setVideoSrc] = useState<string | null>(null);
     const [duration, setDuration] = useState<number>(0);
@@ -19,6 +26,8 @@ export const VideoEditor: React.FC = () => {
     const [notification, setNotification] = useState<string | null>(null);
     const [hasSavedProject, setHasSavedProject] = useState(false);
     const [isSaved, setIsSaved] = useState(false);
+    const [sourceItemId, setSourceItemId] = useState<string | null>(null);
+    const [pendingRerunSettings, setPendingRerunSettings] = useState<Record<string, string | number | boolean> | null>(null);
 
     const videoRef = useRef<HTMLVideoElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -50,17 +59,53 @@ export const VideoEditor: React.FC = () => {
         }
     }, [videoSrc, trimEnd]);
 
+    const loadVideoFile = (selectedFile: File, itemId?: string) => {
+        setFile(selectedFile);
+        setSourceItemId(itemId ?? null);
+        const url = URL.createObjectURL(selectedFile);
+        setVideoSrc(url);
+        setProcessedVideoUrl(null);
+        setError(null);
+        setTrimStart(0);
+        setTrimEnd(0);
+        setTextOverlay('');
+        setFilter('none');
+    };
+
+    useEffect(() => {
+        if (!initialItemId) return;
+        let cancelled = false;
+        getMediaFile(initialItemId)
+            .then(libraryFile => {
+                if (cancelled) return;
+                if (libraryFile && libraryFile.type.startsWith('video/')) {
+                    loadVideoFile(libraryFile, initialItemId);
+                } else {
+                    setError('That library video could not be found.');
+                }
+            })
+            .catch(() => !cancelled && setError('That library video could not be loaded.'));
+        return () => {
+            cancelled = true;
+        };
+    }, [initialItemId]);
+
+    useRerunItem(rerunItemId, item => setPendingRerunSettings(item.metadata?.settings ?? null));
+
+    // Loading the source resets every control, so re-run settings wait for it.
+    useEffect(() => {
+        if (!pendingRerunSettings || !file) return;
+        setTrimStart(Number(pendingRerunSettings.trimStart) || 0);
+        setTrimEnd(Number(pendingRerunSettings.trimEnd) || 0);
+        setFilter(String(pendingRerunSettings.filter ?? 'none'));
+        setTextOverlay(String(pendingRerunSettings.textOverlay ?? ''));
+        setPendingRerunSettings(null);
+    }, [pendingRerunSettings, file]);
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const selectedFile = e.target.files?.[0];
         if (selectedFile && selectedFile.type.startsWith('video/')) {
-            setFile(selectedFile);
-            const url = URL.createObjectURL(selectedFile);
-            setVideoSrc(url);
-            setProcessedVideoUrl(null);
-            setError(null);
-            setTrimStart(0);
-            setTextOverlay('');
-            setFilter('none');
+            loadVideoFile(selectedFile);
         } else {
             setError('Please select a valid video file.');
         }
@@ -106,6 +151,7 @@ export const VideoEditor: React.FC = () => {
 
                 if (selectedFile && selectedFile.name === savedProject.fileName && selectedFile.type === savedProject.fileType) {
                     setFile(selectedFile);
+                    setSourceItemId(null);
                     const url = URL.createObjectURL(selectedFile);
                     setVideoSrc(url);
                     setProcessedVideoUrl(null);
@@ -216,13 +262,20 @@ export const VideoEditor: React.FC = () => {
         animationFrameId = requestAnimationFrame(drawFrame);
     };
     
-    const handleSave = () => {
+    const handleSave = async () => {
         if (processedVideoUrl) {
-            saveItem({
+            const saved = await saveItem({
                 type: 'video',
                 content: processedVideoUrl,
-                prompt: `Edited Video: trim=[${trimStart.toFixed(1)}-${trimEnd.toFixed(1)}s], filter=${filter}, text='${textOverlay}'`
+                prompt: textOverlay ? `Edited video: "${textOverlay}"` : 'Edited video',
+                metadata: {
+                    tool: 'video-edit',
+                    inputs: file ? [sourceItemId ? { itemId: sourceItemId, name: file.name } : { name: file.name }] : [],
+                    settings: { trimStart: Number(trimStart.toFixed(1)), trimEnd: Number(trimEnd.toFixed(1)), filter, textOverlay },
+                },
+                ...(sourceItemId && { parentId: sourceItemId }),
             });
+            if (!saved) return;
             setIsSaved(true);
             setTimeout(() => setIsSaved(false), 2000);
         }
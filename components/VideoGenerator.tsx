@@ -1,10 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { generateVideo } from '../services/geminiService';
 import { useAistudio } from '../hooks/useAistudio';
+import { useMediaUrl } from '../hooks/useMediaUrl';
 import { fileToBase64 } from '../utils/fileUtils';
-import { useSavedContent } from '../contexts/SavedContentContext';
+import { useJobs } from '../contexts/JobContext';
+import { getMediaFile } from '../services/libraryStore';
+import { useRerunItem } from '../hooks/useRerunItem';
+import { useHandoff } from '../hooks/useHandoff';
+import { buildRouteHash } from '../hooks/useRoute';
 import { Spinner } from './common/Spinner';
 import { Icon } from './common/Icon';
+import { AiServiceError, getErrorMessage } from '../services/apiErrors';
 
 const VEO_LOADING_MESSAGES = [
     "Warming up the digital director's chair...",
@@ -14,20 +19,30 @@ const VEO_LOADING_MESSAGES = [
     "Polishing the final frames...",
 ];
 
-export const VideoGenerator: React.FC = () => {
+interface VideoGeneratorProps {
+    rerunItemId?: string; // library item whose settings pre-fill the form
+    handoffId?: string; // prompt or starting image sent from another tool
+}
+
+export const VideoGenerator: React.FC<VideoGeneratorProps> = ({ rerunItemId, handoffId }) => {
     const { hasKey, isLoading: isKeyLoading, selectKey, handleApiError } = useAistudio();
-    const { saveItem } = useSavedContent();
+    const { jobs, startVideoJob, cancelJob } = useJobs();
     const [prompt, setPrompt] = useState('');
     const [aspectRatio, setAspectRatio] = useState<'16:9' | '9:16'>('16:9');
     const [file, setFile] = useState<File | null>(null);
+    const [fileItemId, setFileItemId] = useState<string | null>(null); // set when the starting frame came from the library
     const [preview, setPreview] = useState<string | null>(null);
-    const [videoUrl, setVideoUrl] = useState<string | null>(null);
-    const [isLoading, setIsLoading] = useState(false);
+    const [jobId, setJobId] = useState<string | null>(null);
+    const [isStarting, setIsStarting] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [loadingMessage, setLoadingMessage] = useState(VEO_LOADING_MESSAGES[0]);
-    const [isSaved, setIsSaved] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    const job = jobs.find(j => j.id === jobId);
+    const isLoading = isStarting || job?.status === 'running';
+    const resultItemId = job?.status === 'succeeded' ? job.resultItemIds[0] : undefined;
+    const { url: videoUrl } = useMediaUrl(resultItemId ?? '', !!resultItemId);
+
     // Load state from session storage on component mount
     useEffect(() => {
         const savedStateJSON = sessionStorage.getItem('videoGeneratorState');
@@ -36,35 +51,70 @@ export const VideoGenerator: React.FC = () => {
                 const savedState = JSON.parse(savedStateJSON);
                 setPrompt(savedState.prompt || '');
                 setAspectRatio(savedState.aspectRatio || '16:9');
+                setJobId(savedState.jobId || null);
             } catch (e) {
                 console.error("Failed to parse video generator state from session storage", e);
             }
         }
     }, []); // Empty dependency array ensures this runs only once on mount
 
+    useRerunItem(rerunItemId, item => {
+        setPrompt(item.prompt);
+        if (item.metadata?.aspectRatio === '16:9' || item.metadata?.aspectRatio === '9:16') {
+            setAspectRatio(item.metadata.aspectRatio);
+        }
+        setJobId(null);
+        const frameItemId = item.metadata?.inputs?.[0]?.itemId;
+        if (!frameItemId) return;
+        getMediaFile(frameItemId).then(frame => {
+            if (!frame) return;
+            setFile(frame);
+            setFileItemId(frameItemId);
+            setPreview(URL.createObjectURL(frame));
+        });
+    });
+
+    useHandoff(handoffId, payload => {
+        setJobId(null);
+        if (payload.kind === 'text') {
+            setPrompt(payload.text);
+        } else {
+            setFile(payload.file);
+            setFileItemId(payload.itemId ?? null);
+            setPreview(URL.createObjectURL(payload.file));
+        }
+    });
+
     // Save state to session storage whenever it changes
     useEffect(() => {
-        const stateToSave = JSON.stringify({ prompt, aspectRatio });
+        const stateToSave = JSON.stringify({ prompt, aspectRatio, jobId });
         sessionStorage.setItem('videoGeneratorState', stateToSave);
-    }, [prompt, aspectRatio]);
+    }, [prompt, aspectRatio, jobId]);
+
+    useEffect(() => {
+        if (!isLoading) return;
+        const messageInterval = setInterval(() => {
+            setLoadingMessage(VEO_LOADING_MESSAGES[Math.floor(Math.random() * VEO_LOADING_MESSAGES.length)]);
+        }, 5000);
+        return () => clearInterval(messageInterval);
+    }, [isLoading]);
+
+    useEffect(() => {
+        if (job?.status === 'failed' && job.errorKind) {
+            handleApiError(new AiServiceError(job.errorKind, { message: job.error }));
+        }
+    }, [job?.status, job?.errorKind, job?.error, handleApiError]);
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const selectedFile = e.target.files?.[0];
         if (selectedFile) {
             setFile(selectedFile);
+            setFileItemId(null);
             setPreview(URL.createObjectURL(selectedFile));
-            setVideoUrl(null);
+            setJobId(null);
             setError(null);
         }
     };
-    
-    const handleSave = () => {
-        if(videoUrl) {
-            saveItem({ type: 'video', content: videoUrl, prompt });
-            setIsSaved(true);
-            setTimeout(() => setIsSaved(false), 2000);
-        }
-    }
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -73,13 +123,9 @@ export const VideoGenerator: React.FC = () => {
             return;
         }
         
-        setIsLoading(true);
+        setIsStarting(true);
         setError(null);
-        setVideoUrl(null);
-        
-        const messageInterval = setInterval(() => {
-            setLoadingMessage(VEO_LOADING_MESSAGES[Math.floor(Math.random() * VEO_LOADING_MESSAGES.length)]);
-        }, 5000);
+        setJobId(null);
 
         try {
             let imagePayload;
@@ -87,14 +133,14 @@ export const VideoGenerator: React.FC = () => {
                 const base64 = await fileToBase64(file);
                 imagePayload = { base64, mimeType: file.type };
             }
-            const url = await generateVideo(prompt, aspectRatio, imagePayload);
-            setVideoUrl(url);
+            const inputs = file ? [fileItemId ? { itemId: fileItemId, name: file.name } : { name: file.name }] : [];
+            const newJob = await startVideoJob({ prompt, aspectRatio, image: imagePayload, inputs });
+            setJobId(newJob.id);
         } catch (err) {
             handleApiError(err);
-            setError(err instanceof Error ? err.message : 'An unknown error occurred during video generation.');
+            setError(getErrorMessage(err, 'An unknown error occurred during video generation.'));
         } finally {
-            setIsLoading(false);
-            clearInterval(messageInterval);
+            setIsStarting(false);
         }
     };
 
@@ -170,11 +216,18 @@ export const VideoGenerator: React.FC = () => {
             </form>
 
             {error && <div className="mt-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-lg">{error}</div>}
+            {job?.status === 'failed' && <div className="mt-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-lg">{job.error}</div>}
 
             {isLoading && (
                 <div className="text-center mt-8">
                     <Spinner size="lg" />
                     <p className="mt-4 text-gray-300">{loadingMessage}</p>
+                    <p className="mt-2 text-sm text-gray-500">You can keep working elsewhere. The video will be saved to My Library when it's ready.</p>
+                    {job && (
+                        <button onClick={() => cancelJob(job.id)} className="mt-4 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition">
+                            Cancel
+                        </button>
+                    )}
                 </div>
             )}
 
@@ -182,14 +235,10 @@ export const VideoGenerator: React.FC = () => {
                 <div className="mt-8">
                     <div className="flex justify-between items-center mb-4">
                         <h3 className="text-xl font-semibold">Result</h3>
-                         <button
-                            onClick={handleSave}
-                            disabled={isSaved}
-                            className="flex items-center gap-2 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition disabled:bg-green-600"
-                        >
-                            <Icon name={isSaved ? "check" : "save"} className="w-5 h-5" />
-                            {isSaved ? 'Saved!' : 'Save Video'}
-                        </button>
+                        <a href={buildRouteHash('library')} className="flex items-center gap-2 text-sm text-green-400 hover:underline">
+                            <Icon name="check" className="w-5 h-5" />
+                            Saved to My Library
+                        </a>
                     </div>
                     <div className="bg-gray-800 p-2 rounded-lg">
                         <video src={videoUrl} controls autoPlay loop className="w-full h-auto rounded-md" />
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { useVoiceSettings, LivePersonaDraft, VoiceTool } from '../contexts/VoiceSettingsContext';
+import { DEFAULT_LIVE_INSTRUCTION, DEFAULT_LIVE_VOICE } from '../services/geminiService';
+import { VOICE_CATALOG } from '../services/voiceCatalog';
+import { useVoicePreview } from '../hooks/useVoicePreview';
+import { LivePersona } from '../types';
+import { VoiceSelect } from './common/VoiceSelect';
+import { Spinner } from './common/Spinner';
+import { Icon } from './common/Icon';
+
+const emptyForm: LivePersonaDraft = { name: '', voice: DEFAULT_LIVE_VOICE, systemInstruction: DEFAULT_LIVE_INSTRUCTION };
+
+const toForm = (persona: LivePersona): LivePersonaDraft => ({
+    name: persona.name,
+    voice: persona.voice,
+    systemInstruction: persona.systemInstruction,
+});
+
+const voiceTools: { tool: VoiceTool; label: string }[] = [
+    { tool: 'tts', label: 'Text-to-Speech' },
+    { tool: 'live-assistant', label: 'Live Assistant' },
+];
+
+export const VoiceManager: React.FC = () => {
+    const { defaultVoices, setDefaultVoice, personas, activePersona, setActivePersonaId, createPersona, updatePersona, deletePersona } = useVoiceSettings();
+    const preview = useVoicePreview();
+    const [selectedId, setSelectedId] = useState<string | null>(personas[0]?.id ?? null);
+    const [form, setForm] = useState<LivePersonaDraft>(personas[0] ? toForm(personas[0]) : emptyForm);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaved, setIsSaved] = useState(false);
+
+    // Loads a persona into the form; saving keeps the form as typed.
+    const selectPersona = (id: string | null) => {
+        const selected = personas.find(persona => persona.id === id);
+        setSelectedId(id);
+        setForm(selected ? toForm(selected) : emptyForm);
+        setError(null);
+    };
+
+    const handleNew = () => selectPersona(null);
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        const draft = { ...form, name: form.name.trim(), systemInstruction: form.systemInstruction.trim() };
+        if (!draft.name) {
+            setError('Please give this persona a name.');
+            return;
+        }
+        if (!draft.systemInstruction) {
+            setError('Describe how the assistant should behave.');
+            return;
+        }
+        if (selectedId) {
+            updatePersona(selectedId, draft);
+        } else {
+            setSelectedId(createPersona(draft).id);
+        }
+        setError(null);
+        setIsSaved(true);
+        setTimeout(() => setIsSaved(false), 2000);
+    };
+
+    const handleDelete = () => {
+        if (!selectedId) return;
+        const persona = personas.find(p => p.id === selectedId);
+        if (!window.confirm(`Delete the "${persona?.name}" persona?`)) return;
+        deletePersona(selectedId);
+        selectPersona(null);
+    };
+
+    return (
+        <div className="max-w-6xl mx-auto">
+            <h2 className="text-3xl font-bold mb-6 text-red-400">Voices & Personas</h2>
+            <p className="mb-6 text-gray-400">
+                Listen to the available voices, choose the default voice for each tool, and save personas that give the Live Assistant its own voice and personality.
+            </p>
+
+            <div className="mb-8 p-4 bg-gray-800 border border-gray-700 rounded-lg">
+                <h3 className="text-lg font-semibold mb-3 text-red-400">Default Voices</h3>
+                <div className="grid md:grid-cols-2 gap-4">
+                    {voiceTools.map(({ tool, label }) => (
+                        <div key={tool}>
+                            <label htmlFor={`defaultVoice-${tool}`} className="block text-sm font-medium text-gray-300 mb-2">{label}</label>
+                            <VoiceSelect id={`defaultVoice-${tool}`} value={defaultVoices[tool]} onChange={voice => setDefaultVoice(tool, voice)} />
+                        </div>
+                    ))}
+                </div>
+                <p className="mt-3 text-xs text-gray-500">Text-to-Speech can still switch voices for a single script, and a Live Assistant persona uses its own voice.</p>
+            </div>
+
+            <div className="mb-8">
+                <h3 className="text-lg font-semibold mb-3 text-red-400">Voice Catalog</h3>
+                {preview.error && <div className="mb-3 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-lg">{preview.error}</div>}
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+                    {VOICE_CATALOG.map(voice => {
+                        const isPlaying = preview.playingVoice === voice.name;
+                        const usedBy = voiceTools.filter(({ tool }) => defaultVoices[tool] === voice.name);
+                        return (
+                            <div key={voice.name} className={`p-3 bg-gray-800 border rounded-lg ${isPlaying ? 'border-red-500' : 'border-gray-700'}`}>
+                                <div className="flex items-start justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <p className="font-semibold truncate">{voice.name}</p>
+                                        <p className="text-sm text-gray-400">{voice.style}</p>
+                                    </div>
+                                    <button
+                                        onClick={() => isPlaying ? preview.stop() : preview.play(voice.name)}
+                                        disabled={preview.loadingVoice !== null && preview.loadingVoice !== voice.name}
+                                        title={isPlaying ? 'Stop preview' : `Preview ${voice.name}`}
+                                        className="p-2 text-gray-300 hover:text-white hover:bg-gray-700 rounded-full transition disabled:opacity-50"
+                                    >
+                                        {preview.loadingVoice === voice.name ? <Spinner size="sm" /> : <Icon name={isPlaying ? 'stop' : 'tts'} className="w-5 h-5" />}
+                                    </button>
+                                </div>
+                                {usedBy.length > 0 && <p className="mt-2 text-xs text-green-400">Default for {usedBy.map(({ label }) => label).join(' and ')}</p>}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <h3 className="text-lg font-semibold mb-3 text-red-400">Live Assistant Personas</h3>
+            <div className="grid lg:grid-cols-3 gap-8">
+                <div className="lg:col-span-1 space-y-2">
+                    <button onClick={handleNew} className="w-full py-2 px-4 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition">
+                        + New Persona
+                    </button>
+                    {personas.map(persona => (
+                        <button
+                            key={persona.id}
+                            onClick={() => selectPersona(persona.id)}
+                            className={`w-full flex items-center justify-between p-3 text-left rounded-lg transition ${persona.id === selectedId ? 'bg-gray-700' : 'bg-gray-800 hover:bg-gray-700/50'}`}
+                        >
+                            <span className="truncate">{persona.name}</span>
+                            {persona.id === activePersona?.id && <span className="text-xs text-green-400">Active</span>}
+                        </button>
+                    ))}
+                    {personas.length === 0 && <p className="text-sm text-gray-500 p-2">No personas yet. Create one, like an upbeat co-host or a blunt script editor.</p>}
+                </div>
+
+                <form onSubmit={handleSave} className="lg:col-span-2 p-6 bg-gray-800 border border-gray-700 rounded-lg space-y-4">
+                    <div className="grid md:grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="personaName" className="block text-sm font-medium text-gray-300 mb-2">Persona Name</label>
+                            <input id="personaName" type="text" value={form.name} onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))} placeholder="e.g., Hype Co-Host" className="w-full p-2 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition" />
+                        </div>
+                        <div>
+                            <label htmlFor="personaVoice" className="block text-sm font-medium text-gray-300 mb-2">Voice</label>
+                            <VoiceSelect id="personaVoice" value={form.voice} onChange={voice => setForm(prev => ({ ...prev, voice }))} />
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor="personaInstruction" className="block text-sm font-medium text-gray-300 mb-2">Instructions</label>
+                        <textarea
+                            id="personaInstruction"
+                            value={form.systemInstruction}
+                            onChange={(e) => setForm(prev => ({ ...prev, systemInstruction: e.target.value }))}
+                            placeholder="Who the assistant is and how it should talk to you"
+                            rows={6}
+                            className="w-full p-3 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition"
+                        />
+                    </div>
+                    {error && <div className="p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-lg">{error}</div>}
+                    <div className="flex flex-wrap items-center gap-2">
+                        <button type="submit" disabled={isSaved} className="flex items-center gap-2 py-2 px-4 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition disabled:bg-green-600">
+                            <Icon name={isSaved ? "check" : "save"} className="w-5 h-5" />
+                            {isSaved ? 'Saved!' : 'Save Persona'}
+                        </button>
+                        {selectedId && (
+                            <button type="button" onClick={() => setActivePersonaId(selectedId === activePersona?.id ? null : selectedId)} className="py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition">
+                                {selectedId === activePersona?.id ? 'Stop Using' : 'Use This Persona'}
+                            </button>
+                        )}
+                        <div className="flex-grow"></div>
+                        {selectedId && (
+                            <button type="button" onClick={handleDelete} title="Delete Persona" className="p-2 text-red-500 hover:text-red-400 hover:bg-gray-700 rounded-full transition">
+                                <Icon name="trash" className="w-5 h-5"/>
+                            </button>
+                        )}
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,25 @@
+import React, { useId } from 'react';
+import { useBrandVoice } from '../../contexts/BrandVoiceContext';
+import { buildRouteHash } from '../../hooks/useRoute';
+
+export const BrandVoiceSelector: React.FC<{ className?: string }> = ({ className = '' }) => {
+    const { brandVoices, activeBrandVoice, setActiveBrandVoiceId } = useBrandVoice();
+    // A page can show the selector more than once, e.g. separate mobile and desktop placements.
+    const id = useId();
+
+    return (
+        <div className={`flex items-center gap-2 text-sm ${className}`}>
+            <label htmlFor={id} className="text-gray-400 whitespace-nowrap">Brand Voice</label>
+            <select
+                id={id}
+                value={activeBrandVoice?.id ?? ''}
+                onChange={(e) => setActiveBrandVoiceId(e.target.value || null)}
+                className="p-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition"
+            >
+                <option value="">None</option>
+                {brandVoices.map(voice => <option key={voice.id} value={voice.id}>{voice.name}</option>)}
+            </select>
+            <a href={buildRouteHash('brand-voice')} className="text-red-400 hover:underline whitespace-nowrap">Manage</a>
+        </div>
+    );
+};
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Caption } from '../../types';
+import { captionAt } from '../../utils/captionUtils';
+import { formatElapsed } from '../../utils/transcriptUtils';
+
+interface CaptionEditorProps {
+    captions: Caption[];
+    onChange: (captions: Caption[]) => void;
+    playbackMs: number; // current position of the audio the captions belong to
+    onSeek: (ms: number) => void;
+}
+
+const toSeconds = (ms: number) => (ms / 1000).toFixed(2);
+
+// Shows the caption for the current playback position and lets each cue's text and timing be corrected.
+export const CaptionEditor: React.FC<CaptionEditorProps> = ({ captions, onChange, playbackMs, onSeek }) => {
+    const activeIndex = captionAt(captions, playbackMs);
+
+    const update = (index: number, patch: Partial<Caption>) => {
+        onChange(captions.map((caption, i) => i === index ? { ...caption, ...patch } : caption));
+    };
+
+    const updateTime = (index: number, field: 'startMs' | 'endMs', value: string) => {
+        const seconds = Number(value);
+        if (Number.isFinite(seconds) && seconds >= 0) update(index, { [field]: Math.round(seconds * 1000) });
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-center min-h-[4.5rem] p-3 mb-3 bg-black rounded-lg text-center text-lg text-white" aria-live="polite">
+                {activeIndex >= 0 ? captions[activeIndex].text : <span className="text-gray-600">Captions appear here during playback</span>}
+            </div>
+            <ol className="space-y-2 max-h-80 overflow-y-auto pr-1">
+                {captions.map((caption, i) => {
+                    const isInvalid = caption.endMs <= caption.startMs;
+                    return (
+                        <li key={i} className={`flex flex-col sm:flex-row sm:items-center gap-2 p-2 rounded-lg ${i === activeIndex ? 'bg-gray-700' : 'bg-gray-800'}`}>
+                            <button
+                                type="button"
+                                onClick={() => onSeek(caption.startMs)}
+                                title="Play from here"
+                                className="w-14 shrink-0 text-left text-xs text-gray-400 hover:text-white"
+                            >
+                                {formatElapsed(caption.startMs)}
+                            </button>
+                            {/* Times are committed on blur and re-keyed, so half-typed numbers aren't reformatted mid-edit. */}
+                            <div className="flex items-center gap-1 text-xs">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.1}
+                                    key={`start-${caption.startMs}`}
+                                    defaultValue={toSeconds(caption.startMs)}
+                                    onBlur={(e) => updateTime(i, 'startMs', e.target.value)}
+                                    aria-label={`Caption ${i + 1} start in seconds`}
+                                    className={`w-20 p-1 bg-gray-900 border rounded ${isInvalid ? 'border-red-500' : 'border-gray-600'}`}
+                                />
+                                <span className="text-gray-500">to</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.1}
+                                    key={`end-${caption.endMs}`}
+                                    defaultValue={toSeconds(caption.endMs)}
+                                    onBlur={(e) => updateTime(i, 'endMs', e.target.value)}
+                                    aria-label={`Caption ${i + 1} end in seconds`}
+                                    className={`w-20 p-1 bg-gray-900 border rounded ${isInvalid ? 'border-red-500' : 'border-gray-600'}`}
+                                />
+                            </div>
+                            <input
+                                type="text"
+                                value={caption.text}
+                                onChange={(e) => update(i, { text: e.target.value })}
+                                aria-label={`Caption ${i + 1} text`}
+                                className="flex-1 min-w-0 p-1 text-sm bg-gray-900 border border-gray-600 rounded focus:ring-2 focus:ring-red-500 focus:border-red-500 transition"
+                            />
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
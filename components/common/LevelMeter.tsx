@@ -0,0 +1,35 @@
+import React from 'react';
+
+// The meter shows the last 60 dB, which covers speech from a whisper to full scale.
+const FLOOR_DB = -60;
+
+interface LevelMeterProps {
+    peak: number; // 0–1
+    isClipping: boolean;
+    className?: string;
+}
+
+export const LevelMeter: React.FC<LevelMeterProps> = ({ peak, isClipping, className = '' }) => {
+    const db = peak > 0 ? 20 * Math.log10(peak) : FLOOR_DB;
+    const fill = Math.min(1, Math.max(0, (db - FLOOR_DB) / -FLOOR_DB));
+    return (
+        <div className={`flex items-center gap-2 text-xs ${className}`}>
+            <div
+                className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden"
+                role="meter"
+                aria-label="Microphone level"
+                aria-valuemin={FLOOR_DB}
+                aria-valuemax={0}
+                aria-valuenow={Math.round(db)}
+            >
+                <div
+                    className={`h-full transition-[width] duration-75 ${isClipping ? 'bg-red-500' : fill > 0.85 ? 'bg-yellow-400' : 'bg-green-500'}`}
+                    style={{ width: `${fill * 100}%` }}
+                />
+            </div>
+            <span className={`w-28 text-left ${isClipping ? 'text-red-400 font-semibold' : 'text-gray-500'}`}>
+                {isClipping ? 'Too loud: clipping' : 'Mic level'}
+            </span>
+        </div>
+    );
+};
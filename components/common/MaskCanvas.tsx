@@ -0,0 +1,246 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+
+type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+interface MaskCanvasProps {
+    imageUrl: string;
+    // Receives the finished mask as a PNG data URL (white = edit, black = keep), or null when nothing is painted.
+    onMaskChange: (mask: string | null) => void;
+}
+
+const STROKE_COLOR = '#ef4444';
+const tools: { id: MaskTool; name: string }[] = [
+    { id: 'brush', name: 'Brush' },
+    { id: 'eraser', name: 'Eraser' },
+    { id: 'lasso', name: 'Lasso' },
+];
+
+const isCanvasEmpty = (canvas: HTMLCanvasElement) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return true;
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] !== 0) return false;
+    }
+    return true;
+};
+
+// Turns the painted overlay into the black-and-white mask the model expects,
+// softening the edge by `feather` pixels and optionally swapping the regions.
+const renderMask = (strokes: HTMLCanvasElement, feather: number, invert: boolean): string => {
+    const { width, height } = strokes;
+    const shape = document.createElement('canvas');
+    shape.width = width;
+    shape.height = height;
+    const shapeCtx = shape.getContext('2d')!;
+    shapeCtx.drawImage(strokes, 0, 0);
+    shapeCtx.globalCompositeOperation = 'source-in';
+    shapeCtx.fillStyle = invert ? 'black' : 'white';
+    shapeCtx.fillRect(0, 0, width, height);
+
+    const mask = document.createElement('canvas');
+    mask.width = width;
+    mask.height = height;
+    const maskCtx = mask.getContext('2d')!;
+    maskCtx.fillStyle = invert ? 'white' : 'black';
+    maskCtx.fillRect(0, 0, width, height);
+    if (feather > 0) maskCtx.filter = `blur(${feather}px)`;
+    maskCtx.drawImage(shape, 0, 0);
+    return mask.toDataURL('image/png');
+};
+
+export const MaskCanvas: React.FC<MaskCanvasProps> = ({ imageUrl, onMaskChange }) => {
+    const [tool, setTool] = useState<MaskTool>('brush');
+    const [brushSize, setBrushSize] = useState(40);
+    const [feather, setFeather] = useState(8);
+    const [invert, setInvert] = useState(false);
+    const [hasMask, setHasMask] = useState(false);
+    const hasMaskRef = useRef(false);
+    hasMaskRef.current = hasMask;
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const lassoCanvasRef = useRef<HTMLCanvasElement>(null);
+    const strokeRef = useRef<Point[] | null>(null);
+    // The parent's callback may change identity between renders; effects use the latest one.
+    const onMaskChangeRef = useRef(onMaskChange);
+    onMaskChangeRef.current = onMaskChange;
+
+    // The mask is painted at the image's natural resolution so it lines up pixel for pixel.
+    // Resizing clears the strokes, so the parent's mask is cleared with them.
+    useEffect(() => {
+        let cancelled = false;
+        const image = new Image();
+        image.onload = () => {
+            if (cancelled) return;
+            [canvasRef.current, lassoCanvasRef.current].forEach(canvas => {
+                if (!canvas) return;
+                canvas.width = image.naturalWidth;
+                canvas.height = image.naturalHeight;
+            });
+            setHasMask(false);
+            onMaskChangeRef.current(null);
+        };
+        image.src = imageUrl;
+        return () => {
+            cancelled = true;
+        };
+    }, [imageUrl]);
+
+    const publishMask = useCallback(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || isCanvasEmpty(canvas)) {
+            setHasMask(false);
+            onMaskChangeRef.current(null);
+            return;
+        }
+        setHasMask(true);
+        onMaskChangeRef.current(renderMask(canvas, feather, invert));
+    }, [feather, invert]);
+
+    // Re-export when the output settings change; strokes publish on their own.
+    useEffect(() => {
+        if (hasMaskRef.current) publishMask();
+    }, [publishMask]);
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+            y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+        };
+    };
+
+    // Brush size is given in screen pixels and scaled to the image.
+    const scaledBrushSize = () => {
+        const canvas = canvasRef.current!;
+        return brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+    };
+
+    const drawSegment = (from: Point, to: Point) => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx) return;
+        ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+        ctx.strokeStyle = STROKE_COLOR;
+        ctx.lineWidth = scaledBrushSize();
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.stroke();
+    };
+
+    const drawLassoPreview = (points: Point[]) => {
+        const canvas = lassoCanvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        if (points.length < 2) return;
+        ctx.strokeStyle = 'white';
+        ctx.lineWidth = Math.max(2, canvas.width / 300);
+        ctx.setLineDash([ctx.lineWidth * 4, ctx.lineWidth * 3]);
+        ctx.beginPath();
+        points.forEach((point, i) => i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+        ctx.stroke();
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const point = toCanvasPoint(e);
+        strokeRef.current = [point];
+        if (tool !== 'lasso') drawSegment(point, point);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const stroke = strokeRef.current;
+        if (!stroke) return;
+        const point = toCanvasPoint(e);
+        if (tool === 'lasso') {
+            stroke.push(point);
+            drawLassoPreview(stroke);
+        } else {
+            drawSegment(stroke[stroke.length - 1], point);
+            stroke.push(point);
+        }
+    };
+
+    const handlePointerUp = () => {
+        const stroke = strokeRef.current;
+        strokeRef.current = null;
+        if (!stroke) return;
+        if (tool === 'lasso') {
+            drawLassoPreview([]);
+            const ctx = canvasRef.current?.getContext('2d');
+            if (ctx && stroke.length > 2) {
+                ctx.globalCompositeOperation = 'source-over';
+                ctx.fillStyle = STROKE_COLOR;
+                ctx.beginPath();
+                stroke.forEach((point, i) => i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+                ctx.closePath();
+                ctx.fill();
+            }
+        }
+        publishMask();
+    };
+
+    const handleClear = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        publishMask();
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="relative inline-block w-full">
+                <img src={imageUrl} alt="Source to mask" className="w-full h-auto rounded-md select-none" draggable={false} />
+                <canvas ref={canvasRef} className="absolute inset-0 w-full h-full rounded-md opacity-50" />
+                <canvas
+                    ref={lassoCanvasRef}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+                />
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+                <div className="flex rounded-lg overflow-hidden border border-gray-600">
+                    {tools.map(t => (
+                        <button key={t.id} type="button" onClick={() => setTool(t.id)} className={`py-1 px-3 ${tool === t.id ? 'bg-red-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}>
+                            {t.name}
+                        </button>
+                    ))}
+                </div>
+                {tool !== 'lasso' && (
+                    <label className="flex items-center gap-2 text-gray-300">
+                        Size
+                        <input type="range" min={5} max={120} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="accent-red-500" />
+                    </label>
+                )}
+                <label className="flex items-center gap-2 text-gray-300">
+                    Feather
+                    <input type="range" min={0} max={50} value={feather} onChange={(e) => setFeather(Number(e.target.value))} className="accent-red-500" />
+                </label>
+                <label className="flex items-center gap-2 text-gray-300">
+                    <input type="checkbox" checked={invert} onChange={(e) => setInvert(e.target.checked)} className="accent-red-500" />
+                    Invert
+                </label>
+                <button type="button" onClick={handleClear} disabled={!hasMask} className="py-1 px-3 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition disabled:opacity-50">
+                    Clear
+                </button>
+            </div>
+            <p className="text-xs text-gray-500">
+                {!hasMask
+                    ? 'Optional: paint over the area you want to change. Without a mask the whole image is edited.'
+                    : invert
+                        ? 'Everything except the painted area will be edited.'
+                        : 'Only the painted area will be edited.'}
+            </p>
+        </div>
+    );
+};
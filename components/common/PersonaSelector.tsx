@@ -0,0 +1,26 @@
+import React, { useId } from 'react';
+import { useVoiceSettings } from '../../contexts/VoiceSettingsContext';
+import { buildRouteHash } from '../../hooks/useRoute';
+
+export const PersonaSelector: React.FC<{ disabled?: boolean; className?: string }> = ({ disabled, className = '' }) => {
+    const { defaultVoices, personas, activePersona, setActivePersonaId } = useVoiceSettings();
+    const id = useId();
+
+    return (
+        <div className={`flex items-center gap-2 text-sm ${className}`}>
+            <label htmlFor={id} className="text-gray-400 whitespace-nowrap">Persona</label>
+            <select
+                id={id}
+                value={activePersona?.id ?? ''}
+                onChange={(e) => setActivePersonaId(e.target.value || null)}
+                disabled={disabled}
+                title={disabled ? 'Stop the conversation to change persona' : undefined}
+                className="p-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition disabled:opacity-50"
+            >
+                <option value="">Default ({defaultVoices['live-assistant']})</option>
+                {personas.map(persona => <option key={persona.id} value={persona.id}>{persona.name} ({persona.voice})</option>)}
+            </select>
+            <a href={buildRouteHash('voices')} className="text-red-400 hover:underline whitespace-nowrap">Manage</a>
+        </div>
+    );
+};
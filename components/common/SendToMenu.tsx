@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { View, viewName } from '../Sidebar';
+import { HandoffKind, HandoffPayload, handoffTargets, sendTo } from '../../hooks/useHandoff';
+
+interface SendToMenuProps {
+    kind: HandoffKind;
+    // Called only once a target is picked, so media is read lazily.
+    getPayload: () => HandoffPayload | Promise<HandoffPayload | null>;
+    exclude?: View; // the tool showing the menu
+    className?: string;
+}
+
+export const SendToMenu: React.FC<SendToMenuProps> = ({ kind, getPayload, exclude, className = '' }) => {
+    const [isSending, setIsSending] = useState(false);
+    const [error, setError] = useState(false);
+
+    const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const view = e.target.value as View;
+        if (!view) return;
+        setIsSending(true);
+        setError(false);
+        try {
+            const payload = await getPayload();
+            if (payload) sendTo(view, payload);
+            else setError(true);
+        } catch (err) {
+            console.error("Could not prepare content to send", err);
+            setError(true);
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    return (
+        <select
+            value=""
+            onChange={handleChange}
+            disabled={isSending}
+            title={error ? 'This could not be sent. Please try again.' : 'Open in another tool'}
+            className={`p-2 text-sm bg-gray-700 border rounded-lg text-gray-200 hover:bg-gray-600 transition disabled:opacity-50 ${error ? 'border-red-500' : 'border-gray-600'} ${className}`}
+        >
+            <option value="" disabled>{isSending ? 'Sending...' : 'Send to...'}</option>
+            {handoffTargets[kind].filter(view => view !== exclude).map(view => (
+                <option key={view} value={view}>{viewName(view)}</option>
+            ))}
+        </select>
+    );
+};
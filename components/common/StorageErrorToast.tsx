@@ -0,0 +1,16 @@
+import React from 'react';
+import { useSavedContent } from '../../contexts/SavedContentContext';
+
+// Library writes happen from every tool, so failures (e.g. a full quota) are
+// surfaced app-wide rather than only inside My Library.
+export const StorageErrorToast: React.FC = () => {
+    const { storageError, clearStorageError } = useSavedContent();
+    if (!storageError) return null;
+
+    return (
+        <div role="alert" className="fixed bottom-6 right-6 z-50 max-w-sm p-4 bg-red-900/90 border border-red-700 text-red-200 rounded-lg shadow-lg flex items-start gap-3">
+            <p className="flex-1 text-sm">{storageError}</p>
+            <button onClick={clearStorageError} title="Dismiss" className="text-red-300 hover:text-white">&times;</button>
+        </div>
+    );
+};
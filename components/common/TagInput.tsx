@@ -0,0 +1,48 @@
+import React, { useState, useId } from 'react';
+import { normalizeTag } from '../../utils/librarySearch';
+
+interface TagInputProps {
+    suggestions: string[]; // existing tags, offered as autocomplete
+    onAdd: (tag: string) => void;
+    placeholder?: string;
+    className?: string;
+}
+
+// Enter or comma commits the tag; the browser's datalist provides the autocomplete.
+export const TagInput: React.FC<TagInputProps> = ({ suggestions, onAdd, placeholder = 'Add tag...', className = '' }) => {
+    const [value, setValue] = useState('');
+    const listId = useId();
+
+    const commit = () => {
+        const tag = normalizeTag(value);
+        if (tag) onAdd(tag);
+        setValue('');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            commit();
+        } else if (e.key === 'Escape') {
+            setValue('');
+        }
+    };
+
+    return (
+        <>
+            <input
+                type="text"
+                value={value}
+                list={listId}
+                onChange={(e) => setValue(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onBlur={() => value.trim() && commit()}
+                placeholder={placeholder}
+                className={`p-1 px-2 text-xs bg-gray-900 border border-gray-700 rounded-md focus:ring-1 focus:ring-red-500 focus:border-red-500 ${className}`}
+            />
+            <datalist id={listId}>
+                {suggestions.map(tag => <option key={tag} value={tag} />)}
+            </datalist>
+        </>
+    );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { VOICE_CATALOG, voiceLabel } from '../../services/voiceCatalog';
+import { useVoicePreview } from '../../hooks/useVoicePreview';
+import { Spinner } from './Spinner';
+import { Icon } from './Icon';
+
+interface VoiceSelectProps {
+    id?: string;
+    value: string;
+    onChange: (voice: string) => void;
+    disabled?: boolean;
+    className?: string;
+}
+
+// A voice picker with a button that plays a sample of the selected voice.
+export const VoiceSelect: React.FC<VoiceSelectProps> = ({ id, value, onChange, disabled, className = '' }) => {
+    const preview = useVoicePreview();
+    const isPlaying = preview.playingVoice === value;
+
+    return (
+        <div className={className}>
+            <div className="flex items-center gap-2">
+                <select
+                    id={id}
+                    value={value}
+                    onChange={(e) => {
+                        preview.stop();
+                        onChange(e.target.value);
+                    }}
+                    disabled={disabled}
+                    className="flex-1 min-w-0 p-2 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition disabled:opacity-50"
+                >
+                    {VOICE_CATALOG.map(voice => <option key={voice.name} value={voice.name}>{voiceLabel(voice.name)}</option>)}
+                </select>
+                <button
+                    type="button"
+                    onClick={() => isPlaying ? preview.stop() : preview.play(value)}
+                    disabled={preview.loadingVoice !== null}
+                    title={isPlaying ? 'Stop preview' : `Preview ${value}`}
+                    className="flex items-center justify-center w-10 h-10 shrink-0 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition disabled:opacity-50"
+                >
+                    {preview.loadingVoice ? <Spinner size="sm" /> : <Icon name={isPlaying ? 'stop' : 'tts'} className="w-5 h-5" />}
+                </button>
+            </div>
+            {preview.error && <p className="mt-1 text-xs text-red-400">{preview.error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,74 @@
+import React, { useState, useRef, useEffect } from 'react';
+
+const BAR_COUNT = 80;
+
+// Peak amplitude per bar across all channels, normalised to 0..1.
+const computePeaks = (buffer: AudioBuffer, bars: number): number[] => {
+    const samplesPerBar = Math.max(1, Math.floor(buffer.length / bars));
+    const peaks = new Array(bars).fill(0);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let bar = 0; bar < bars; bar++) {
+            const start = bar * samplesPerBar;
+            for (let i = start; i < Math.min(start + samplesPerBar, data.length); i++) {
+                peaks[bar] = Math.max(peaks[bar], Math.abs(data[i]));
+            }
+        }
+    }
+    const max = Math.max(...peaks, 0.01);
+    return peaks.map(peak => peak / max);
+};
+
+export const WaveformPlayer: React.FC<{ src: string; className?: string }> = ({ src, className = '' }) => {
+    const [peaks, setPeaks] = useState<number[] | null>(null);
+    const [progress, setProgress] = useState(0);
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+        fetch(src)
+            .then(response => response.arrayBuffer())
+            .then(data => audioContext.decodeAudioData(data))
+            .then(buffer => !cancelled && setPeaks(computePeaks(buffer, BAR_COUNT)))
+            .catch(error => console.error("Could not decode audio for waveform", error))
+            .finally(() => audioContext.close());
+        return () => {
+            cancelled = true;
+        };
+    }, [src]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || !peaks) return;
+        const { width, height } = canvas;
+        const barWidth = width / peaks.length;
+        ctx.clearRect(0, 0, width, height);
+        peaks.forEach((peak, i) => {
+            const barHeight = Math.max(2, peak * height * 0.9);
+            ctx.fillStyle = i / peaks.length < progress ? '#f87171' : '#4b5563';
+            ctx.fillRect(i * barWidth + 1, (height - barHeight) / 2, barWidth - 2, barHeight);
+        });
+    }, [peaks, progress]);
+
+    const handleTimeUpdate = () => {
+        const audio = audioRef.current;
+        if (audio && audio.duration) setProgress(audio.currentTime / audio.duration);
+    };
+
+    const handleSeek = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        const audio = audioRef.current;
+        if (!audio || !audio.duration) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        audio.currentTime = ((e.clientX - rect.left) / rect.width) * audio.duration;
+    };
+
+    return (
+        <div className={`flex flex-col justify-center gap-2 p-3 bg-gray-900 ${className}`}>
+            <canvas ref={canvasRef} width={320} height={80} onClick={handleSeek} className="w-full h-20 cursor-pointer" />
+            <audio ref={audioRef} src={src} controls preload="metadata" onTimeUpdate={handleTimeUpdate} className="w-full h-8" />
+        </div>
+    );
+};
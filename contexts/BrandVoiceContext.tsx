@@ -0,0 +1,79 @@
+import React, { createContext, useState, useEffect, useContext, useCallback, ReactNode } from 'react';
+import { BrandVoice } from '../types';
+
+export type BrandVoiceDraft = Omit<BrandVoice, 'id' | 'createdAt'>;
+
+interface BrandVoiceContextType {
+  brandVoices: BrandVoice[];
+  activeBrandVoice: BrandVoice | null;
+  setActiveBrandVoiceId: (id: string | null) => void;
+  createBrandVoice: (draft: BrandVoiceDraft) => BrandVoice;
+  updateBrandVoice: (id: string, draft: BrandVoiceDraft) => void;
+  deleteBrandVoice: (id: string) => void;
+}
+
+const BrandVoiceContext = createContext<BrandVoiceContextType | undefined>(undefined);
+
+// Profiles are kept across visits; the chosen profile only lasts for the browser session.
+const PROFILES_STORAGE_KEY = 'brandVoices';
+const ACTIVE_STORAGE_KEY = 'activeBrandVoiceId';
+
+export const BrandVoiceProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [brandVoices, setBrandVoices] = useState<BrandVoice[]>(() => {
+    try {
+      const stored = window.localStorage.getItem(PROFILES_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error("Could not parse brand voices from localStorage", error);
+      return [];
+    }
+  });
+  const [activeBrandVoiceId, setActiveBrandVoiceId] = useState<string | null>(() => sessionStorage.getItem(ACTIVE_STORAGE_KEY));
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(brandVoices));
+    } catch (error) {
+      console.error("Could not save brand voices to localStorage", error);
+    }
+  }, [brandVoices]);
+
+  useEffect(() => {
+    if (activeBrandVoiceId) {
+      sessionStorage.setItem(ACTIVE_STORAGE_KEY, activeBrandVoiceId);
+    } else {
+      sessionStorage.removeItem(ACTIVE_STORAGE_KEY);
+    }
+  }, [activeBrandVoiceId]);
+
+  const createBrandVoice = useCallback((draft: BrandVoiceDraft) => {
+    const brandVoice: BrandVoice = { ...draft, id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+    setBrandVoices(prev => [...prev, brandVoice]);
+    return brandVoice;
+  }, []);
+
+  const updateBrandVoice = useCallback((id: string, draft: BrandVoiceDraft) => {
+    setBrandVoices(prev => prev.map(voice => voice.id === id ? { ...voice, ...draft } : voice));
+  }, []);
+
+  const deleteBrandVoice = useCallback((id: string) => {
+    setBrandVoices(prev => prev.filter(voice => voice.id !== id));
+    setActiveBrandVoiceId(current => current === id ? null : current);
+  }, []);
+
+  const activeBrandVoice = brandVoices.find(voice => voice.id === activeBrandVoiceId) ?? null;
+
+  return (
+    <BrandVoiceContext.Provider value={{ brandVoices, activeBrandVoice, setActiveBrandVoiceId, createBrandVoice, updateBrandVoice, deleteBrandVoice }}>
+      {children}
+    </BrandVoiceContext.Provider>
+  );
+};
+
+export const useBrandVoice = (): BrandVoiceContextType => {
+  const context = useContext(BrandVoiceContext);
+  if (context === undefined) {
+    throw new Error('useBrandVoice must be used within a BrandVoiceProvider');
+  }
+  return context;
+};
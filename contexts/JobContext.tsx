@@ -0,0 +1,221 @@
+import React, { createContext, useState, useEffect, useContext, useCallback, useRef, ReactNode } from 'react';
+import { AssetRef, GenerationMetadata, Job, JobKind } from '../types';
+import { MediaPayload, getActiveProviderId } from '../services/aiProvider';
+import { startVideoGeneration, getVideoResult, generateHeadshots, getModelId } from '../services/geminiService';
+import { classifyError } from '../services/apiErrors';
+import { useSavedContent } from './SavedContentContext';
+
+interface VideoJobParams {
+  prompt: string;
+  aspectRatio: '16:9' | '9:16';
+  image?: MediaPayload;
+  inputs?: AssetRef[];
+}
+
+interface HeadshotJobParams {
+  image: MediaPayload;
+  profession: string;
+  photoshootType: string;
+  details: string;
+  inputs?: AssetRef[];
+}
+
+interface JobContextType {
+  jobs: Job[];
+  startVideoJob: (params: VideoJobParams) => Promise<Job>;
+  startHeadshotJob: (params: HeadshotJobParams) => Job;
+  cancelJob: (id: string) => void;
+  dismissJob: (id: string) => void;
+  clearFinishedJobs: () => void;
+}
+
+const JobContext = createContext<JobContextType | undefined>(undefined);
+
+const JOBS_STORAGE_KEY = 'backgroundJobs';
+const VIDEO_POLL_INTERVAL_MS = 10000;
+export const VIDEO_MAX_WAIT_MS = 15 * 60 * 1000;
+const MAX_FINISHED_JOBS = 20;
+
+const loadJobs = (): Job[] => {
+  try {
+    const stored = window.localStorage.getItem(JOBS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Could not parse background jobs from localStorage", error);
+    return [];
+  }
+};
+
+const failure = (error: unknown): Partial<Job> => {
+  const classified = classifyError(error);
+  return { status: 'failed', error: classified.message, errorKind: classified.kind };
+};
+
+const createJob = (kind: JobKind, prompt: string, metadata: GenerationMetadata, operationId?: string): Job => ({
+  id: crypto.randomUUID(),
+  kind,
+  prompt,
+  providerId: getActiveProviderId(),
+  operationId,
+  metadata,
+  status: 'running',
+  resultItemIds: [],
+  startedAt: new Date().toISOString(),
+});
+
+// Results made from a library item are linked back to it.
+const resultFields = (job: Job) => ({
+  prompt: job.prompt,
+  metadata: job.metadata,
+  parentId: job.metadata?.inputs?.find(input => input.itemId)?.itemId,
+});
+
+// Long-running generations live here rather than in the tool that started them,
+// so they survive navigation, and video operations survive a reload too.
+export const JobProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { saveItem } = useSavedContent();
+  const [jobs, setJobs] = useState<Job[]>(loadJobs);
+  const timersRef = useRef<Map<string, number>>(new Map());
+  const cancelledIdsRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(JOBS_STORAGE_KEY, JSON.stringify(jobs));
+    } catch (error) {
+      console.error("Could not save background jobs to localStorage", error);
+    }
+  }, [jobs]);
+
+  const updateJob = useCallback((id: string, patch: Partial<Job>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
+  }, []);
+
+  const finishJob = useCallback((id: string, patch: Partial<Job>) => {
+    if (cancelledIdsRef.current.has(id)) return;
+    updateJob(id, { ...patch, finishedAt: new Date().toISOString() });
+  }, [updateJob]);
+
+  const addJob = useCallback((job: Job) => {
+    setJobs(prev => {
+      const finished = prev.filter(j => j.status !== 'running').slice(0, MAX_FINISHED_JOBS - 1);
+      return [job, ...prev.filter(j => j.status === 'running'), ...finished];
+    });
+  }, []);
+
+  const scheduleVideoPoll = useCallback((job: Job, delayMs: number) => {
+    const poll = async () => {
+      timersRef.current.delete(job.id);
+      if (cancelledIdsRef.current.has(job.id)) return;
+      if (Date.now() - Date.parse(job.startedAt) > VIDEO_MAX_WAIT_MS) {
+        finishJob(job.id, { status: 'failed', error: `Gave up after waiting ${VIDEO_MAX_WAIT_MS / 60000} minutes for the video.` });
+        return;
+      }
+      try {
+        const video = await getVideoResult(job.operationId!, job.providerId);
+        if (cancelledIdsRef.current.has(job.id)) return;
+        if (!video) {
+          scheduleVideoPoll(job, VIDEO_POLL_INTERVAL_MS);
+          return;
+        }
+        const item = await saveItem({ type: 'video', content: video, ...resultFields(job) });
+        finishJob(job.id, item
+          ? { status: 'succeeded', resultItemIds: [item.id] }
+          : { status: 'failed', error: 'The video finished but could not be saved to My Library.' });
+      } catch (err) {
+        finishJob(job.id, failure(err));
+      }
+    };
+    window.clearTimeout(timersRef.current.get(job.id));
+    timersRef.current.set(job.id, window.setTimeout(poll, delayMs));
+  }, [saveItem, finishJob]);
+
+  // Only jobs that were running when the app loaded need resuming, once, so the
+  // resume effect reads them and the latest callbacks through refs.
+  const loadedJobsRef = useRef(jobs);
+  const resumeRef = useRef({ scheduleVideoPoll, finishJob });
+  resumeRef.current = { scheduleVideoPoll, finishJob };
+
+  // Pick up where a previous visit left off. Video operations keep running on the
+  // server and can be polled again; headshot batches ran in the page and are lost.
+  useEffect(() => {
+    loadedJobsRef.current.filter(job => job.status === 'running').forEach(job => {
+      if (job.kind === 'video' && job.operationId) {
+        resumeRef.current.scheduleVideoPoll(job, 0);
+      } else {
+        resumeRef.current.finishJob(job.id, { status: 'failed', error: 'Interrupted because the page was closed.' });
+      }
+    });
+    const timers = timersRef.current;
+    return () => {
+      timers.forEach(timer => window.clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
+  const startVideoJob = useCallback(async ({ prompt, aspectRatio, image, inputs }: VideoJobParams) => {
+    const operationId = await startVideoGeneration(prompt, aspectRatio, image);
+    const job = createJob('video', prompt, { tool: 'video-gen', model: getModelId('video'), aspectRatio, inputs }, operationId);
+    addJob(job);
+    scheduleVideoPoll(job, VIDEO_POLL_INTERVAL_MS);
+    return job;
+  }, [addJob, scheduleVideoPoll]);
+
+  const startHeadshotJob = useCallback(({ image, profession, photoshootType, details, inputs }: HeadshotJobParams) => {
+    const job = createJob('headshots', `${photoshootType} photoshoot of a ${profession}. ${details}`.trim(), {
+      tool: 'headshot-gen',
+      model: getModelId('imageEdit'),
+      inputs,
+      settings: { profession, photoshootType, details },
+    });
+    addJob(job);
+    const run = async () => {
+      try {
+        const images = await generateHeadshots(image.base64, image.mimeType, profession, photoshootType, details, (completed, total) => {
+          if (!cancelledIdsRef.current.has(job.id)) updateJob(job.id, { progress: { completed, total } });
+        });
+        if (cancelledIdsRef.current.has(job.id)) return;
+        if (images.length === 0) {
+          finishJob(job.id, { status: 'failed', error: "Sorry, we couldn't generate any images. Please try a different photo or prompt." });
+          return;
+        }
+        const saved = await Promise.all(images.map(content => saveItem({ type: 'image', content, ...resultFields(job) })));
+        finishJob(job.id, { status: 'succeeded', resultItemIds: saved.flatMap(item => item ? [item.id] : []) });
+      } catch (err) {
+        finishJob(job.id, failure(err));
+      }
+    };
+    run();
+    return job;
+  }, [addJob, updateJob, finishJob, saveItem]);
+
+  // The backends have no way to abort a generation, so cancelling stops
+  // polling and discards whatever arrives afterwards.
+  const cancelJob = useCallback((id: string) => {
+    window.clearTimeout(timersRef.current.get(id));
+    timersRef.current.delete(id);
+    updateJob(id, { status: 'cancelled', finishedAt: new Date().toISOString() });
+    cancelledIdsRef.current.add(id);
+  }, [updateJob]);
+
+  const dismissJob = useCallback((id: string) => {
+    setJobs(prev => prev.filter(job => job.id !== id || job.status === 'running'));
+  }, []);
+
+  const clearFinishedJobs = useCallback(() => {
+    setJobs(prev => prev.filter(job => job.status === 'running'));
+  }, []);
+
+  return (
+    <JobContext.Provider value={{ jobs, startVideoJob, startHeadshotJob, cancelJob, dismissJob, clearFinishedJobs }}>
+      {children}
+    </JobContext.Provider>
+  );
+};
+
+export const useJobs = (): JobContextType => {
+  const context = useContext(JobContext);
+  if (context === undefined) {
+    throw new Error('useJobs must be used within a JobProvider');
+  }
+  return context;
+};
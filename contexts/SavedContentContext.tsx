@@ -1,49 +1,243 @@
+import React, { createContext, useState, useEffect, useContext, useCallback, useRef, ReactNode } from 'react';
+import { Collection, SavedItem } from '../types';
+import * as libraryStore from '../services/libraryStore';
+import type { ArchiveEntry } from '../services/libraryArchive';
 
-import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
-import { SavedItem } from '../types';
+// Tools hand over media as a data URL, blob: URL or Blob; it is stored as a Blob.
+export type NewSavedItem = Omit<SavedItem, 'id' | 'createdAt' | 'content' | 'mimeType' | 'size'> & {
+  content: string | Blob;
+};
+
+interface StorageUsage {
+  usage: number;
+  quota: number;
+}
 
 interface SavedContentContextType {
   savedItems: SavedItem[];
-  saveItem: (item: Omit<SavedItem, 'id' | 'createdAt'>) => void;
-  deleteItem: (id: string) => void;
+  isLoading: boolean;
+  storageUsage: StorageUsage | null;
+  storageError: string | null;
+  clearStorageError: () => void;
+  saveItem: (item: NewSavedItem) => Promise<SavedItem | null>; // null when storage failed
+  updateItems: (ids: string[], update: (item: SavedItem) => SavedItem) => Promise<void>;
+  deleteItem: (id: string) => Promise<void>;
+  deleteItems: (ids: string[]) => Promise<void>;
+  collections: Collection[];
+  createCollection: (name: string) => Promise<Collection | null>; // null when storage failed
+  renameCollection: (id: string, name: string) => Promise<void>;
+  deleteCollection: (id: string) => Promise<void>;
+  // Writes archive entries as-is, replacing items with the same id. Resolves to the number imported.
+  importEntries: (entries: ArchiveEntry[], collections: Collection[]) => Promise<number>;
 }
 
 const SavedContentContext = createContext<SavedContentContextType | undefined>(undefined);
 
+const describeStorageError = (error: unknown) =>
+  error instanceof libraryStore.StorageQuotaError
+    ? error.message
+    : 'Could not update My Library. Please try again.';
+
 export const SavedContentProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [savedItems, setSavedItems] = useState<SavedItem[]>(() => {
+  const [savedItems, setSavedItems] = useState<SavedItem[]>([]);
+  // Read-modify-write updates run one at a time against the latest items, not
+  // the list from the last render, so quick successive edits don't overwrite each other.
+  const itemsRef = useRef<SavedItem[]>([]);
+  const writeQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  const commitItems = useCallback((update: (items: SavedItem[]) => SavedItem[]) => {
+    itemsRef.current = update(itemsRef.current);
+    setSavedItems(itemsRef.current);
+  }, []);
+
+  const enqueueWrite = useCallback(<T,>(write: () => Promise<T>): Promise<T> => {
+    const run = writeQueueRef.current.then(write);
+    writeQueueRef.current = run.catch(() => undefined);
+    return run;
+  }, []);
+
+  const refreshStorageUsage = useCallback(async () => {
     try {
-      const item = window.localStorage.getItem('savedContent');
-      return item ? JSON.parse(item) : [];
+      setStorageUsage(await libraryStore.getStorageEstimate());
     } catch (error) {
-      console.error("Could not parse saved content from localStorage", error);
-      return [];
+      console.error("Could not estimate storage usage", error);
     }
-  });
+  }, []);
 
   useEffect(() => {
-    try {
-      window.localStorage.setItem('savedContent', JSON.stringify(savedItems));
-    } catch (error) {
-      console.error("Could not save content to localStorage", error);
-    }
-  }, [savedItems]);
+    let cancelled = false;
+    const load = async () => {
+      try {
+        await libraryStore.migrateFromLocalStorage();
+        const [items, storedCollections] = await Promise.all([libraryStore.getAllItems(), libraryStore.getAllCollections()]);
+        if (!cancelled) {
+          commitItems(() => items);
+          setCollections(storedCollections);
+        }
+      } catch (error) {
+        console.error("Could not load saved content from IndexedDB", error);
+        if (!cancelled) setStorageError(describeStorageError(error));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+      refreshStorageUsage();
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshStorageUsage, commitItems]);
 
-  const saveItem = (item: Omit<SavedItem, 'id' | 'createdAt'>) => {
-    const newItem: SavedItem = {
-      ...item,
+  const saveItem = useCallback(async (item: NewSavedItem) => {
+    const base = {
       id: crypto.randomUUID(),
       createdAt: new Date().toISOString(),
+      type: item.type,
+      prompt: item.prompt,
+      ...(item.metadata && { metadata: item.metadata }),
+      ...(item.parentId && { parentId: item.parentId }),
+      ...(item.tags?.length && { tags: item.tags }),
+      ...(item.collectionId && { collectionId: item.collectionId }),
+      ...(item.isFavorite && { isFavorite: true }),
     };
-    setSavedItems(prevItems => [newItem, ...prevItems]);
-  };
+    try {
+      let newItem: SavedItem;
+      if (item.type === 'text') {
+        newItem = { ...base, content: item.content as string };
+        await libraryStore.putItem(newItem);
+      } else {
+        const media = await libraryStore.toBlob(item.content);
+        newItem = { ...base, content: '', mimeType: media.type, size: media.size };
+        await libraryStore.putItem(newItem, media);
+      }
+      commitItems(prevItems => [newItem, ...prevItems]);
+      setStorageError(null);
+      refreshStorageUsage();
+      return newItem;
+    } catch (error) {
+      console.error("Could not save content to IndexedDB", error);
+      setStorageError(describeStorageError(error));
+      refreshStorageUsage();
+      return null;
+    }
+  }, [refreshStorageUsage, commitItems]);
+
+  const updateItems = useCallback((ids: string[], update: (item: SavedItem) => SavedItem) => enqueueWrite(async () => {
+    const idSet = new Set(ids);
+    const updated = itemsRef.current.filter(item => idSet.has(item.id)).map(update);
+    try {
+      await libraryStore.updateItems(updated);
+      const byId = new Map(updated.map(item => [item.id, item]));
+      commitItems(prevItems => prevItems.map(item => byId.get(item.id) ?? item));
+    } catch (error) {
+      console.error("Could not update content in IndexedDB", error);
+      setStorageError(describeStorageError(error));
+    }
+  }), [enqueueWrite, commitItems]);
+
+  const deleteItems = useCallback(async (ids: string[]) => {
+    try {
+      await libraryStore.deleteItems(ids);
+      const idSet = new Set(ids);
+      commitItems(prevItems => prevItems.filter(item => !idSet.has(item.id)));
+    } catch (error) {
+      console.error("Could not delete content from IndexedDB", error);
+      setStorageError(describeStorageError(error));
+    }
+    refreshStorageUsage();
+  }, [refreshStorageUsage, commitItems]);
+
+  const deleteItem = useCallback((id: string) => deleteItems([id]), [deleteItems]);
+
+  const createCollection = useCallback(async (name: string) => {
+    const collection: Collection = { id: crypto.randomUUID(), name: name.trim(), createdAt: new Date().toISOString() };
+    try {
+      await libraryStore.putCollection(collection);
+      setCollections(prev => [...prev, collection].sort((a, b) => a.name.localeCompare(b.name)));
+      return collection;
+    } catch (error) {
+      console.error("Could not save collection to IndexedDB", error);
+      setStorageError(describeStorageError(error));
+      return null;
+    }
+  }, []);
+
+  const renameCollection = useCallback(async (id: string, name: string) => {
+    const collection = collections.find(c => c.id === id);
+    if (!collection) return;
+    const renamed = { ...collection, name: name.trim() };
+    try {
+      await libraryStore.putCollection(renamed);
+      setCollections(prev => prev.map(c => c.id === id ? renamed : c).sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      console.error("Could not rename collection in IndexedDB", error);
+      setStorageError(describeStorageError(error));
+    }
+  }, [collections]);
+
+  const deleteCollection = useCallback((id: string) => enqueueWrite(async () => {
+    const orphaned = itemsRef.current
+      .filter(item => item.collectionId === id)
+      .map(({ collectionId, ...item }) => item);
+    try {
+      await libraryStore.deleteCollection(id, orphaned);
+      const byId = new Map(orphaned.map(item => [item.id, item]));
+      commitItems(prevItems => prevItems.map(item => byId.get(item.id) ?? item));
+      setCollections(prev => prev.filter(c => c.id !== id));
+    } catch (error) {
+      console.error("Could not delete collection from IndexedDB", error);
+      setStorageError(describeStorageError(error));
+    }
+  }), [enqueueWrite, commitItems]);
+
+  const importEntries = useCallback(async (entries: ArchiveEntry[], newCollections: Collection[]) => {
+    const imported: SavedItem[] = [];
+    const createdCollections: Collection[] = [];
+    try {
+      for (const collection of newCollections) {
+        await libraryStore.putCollection(collection);
+        createdCollections.push(collection);
+      }
+      for (const { item, media } of entries) {
+        await libraryStore.putItem(item, media);
+        imported.push(item);
+      }
+      setStorageError(null);
+    } catch (error) {
+      console.error("Could not import content into IndexedDB", error);
+      setStorageError(describeStorageError(error));
+    }
+    setCollections(prev => [...prev, ...createdCollections].sort((a, b) => a.name.localeCompare(b.name)));
+    const byId = new Map(imported.map(item => [item.id, item]));
+    commitItems(prevItems => [...imported, ...prevItems.filter(item => !byId.has(item.id))]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+    refreshStorageUsage();
+    return imported.length;
+  }, [refreshStorageUsage, commitItems]);
 
-  const deleteItem = (id: string) => {
-    setSavedItems(prevItems => prevItems.filter(item => item.id !== id));
-  };
+  const clearStorageError = useCallback(() => setStorageError(null), []);
 
   return (
-    <SavedContentContext.Provider value={{ savedItems, saveItem, deleteItem }}>
+    <SavedContentContext.Provider value={{
+      savedItems,
+      isLoading,
+      storageUsage,
+      storageError,
+      clearStorageError,
+      saveItem,
+      updateItems,
+      deleteItem,
+      deleteItems,
+      collections,
+      createCollection,
+      renameCollection,
+      deleteCollection,
+      importEntries,
+    }}>
       {children}
     </SavedContentContext.Provider>
   );
@@ -0,0 +1,106 @@
+import React, { createContext, useState, useEffect, useContext, useCallback, ReactNode } from 'react';
+import { LivePersona } from '../types';
+import { DEFAULT_LIVE_VOICE, DEFAULT_SPEECH_VOICE } from '../services/geminiService';
+import { isKnownVoice } from '../services/voiceCatalog';
+
+export type VoiceTool = 'tts' | 'live-assistant';
+
+export type LivePersonaDraft = Omit<LivePersona, 'id' | 'createdAt'>;
+
+interface VoiceSettingsContextType {
+  defaultVoices: Record<VoiceTool, string>;
+  setDefaultVoice: (tool: VoiceTool, voice: string) => void;
+  personas: LivePersona[];
+  activePersona: LivePersona | null;
+  setActivePersonaId: (id: string | null) => void;
+  createPersona: (draft: LivePersonaDraft) => LivePersona;
+  updatePersona: (id: string, draft: LivePersonaDraft) => void;
+  deletePersona: (id: string) => void;
+}
+
+const VoiceSettingsContext = createContext<VoiceSettingsContextType | undefined>(undefined);
+
+// Defaults and personas are kept across visits; like brand voices, the chosen persona only lasts for the browser session.
+const DEFAULTS_STORAGE_KEY = 'defaultVoices';
+const PERSONAS_STORAGE_KEY = 'livePersonas';
+const ACTIVE_PERSONA_STORAGE_KEY = 'activeLivePersonaId';
+
+const BUILT_IN_DEFAULTS: Record<VoiceTool, string> = { tts: DEFAULT_SPEECH_VOICE, 'live-assistant': DEFAULT_LIVE_VOICE };
+
+const readJson = <T,>(key: string, fallback: T): T => {
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    console.error(`Could not parse ${key} from localStorage`, error);
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Could not save ${key} to localStorage`, error);
+  }
+};
+
+export const VoiceSettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [defaultVoices, setDefaultVoices] = useState<Record<VoiceTool, string>>(() => {
+    const stored = readJson<Partial<Record<VoiceTool, unknown>>>(DEFAULTS_STORAGE_KEY, {});
+    // A stored voice the catalog no longer offers falls back to the built-in default.
+    return {
+      tts: isKnownVoice(stored.tts) ? stored.tts : BUILT_IN_DEFAULTS.tts,
+      'live-assistant': isKnownVoice(stored['live-assistant']) ? stored['live-assistant'] : BUILT_IN_DEFAULTS['live-assistant'],
+    };
+  });
+  const [personas, setPersonas] = useState<LivePersona[]>(() => readJson(PERSONAS_STORAGE_KEY, []));
+  const [activePersonaId, setActivePersonaId] = useState<string | null>(() => sessionStorage.getItem(ACTIVE_PERSONA_STORAGE_KEY));
+
+  useEffect(() => writeJson(DEFAULTS_STORAGE_KEY, defaultVoices), [defaultVoices]);
+
+  useEffect(() => writeJson(PERSONAS_STORAGE_KEY, personas), [personas]);
+
+  useEffect(() => {
+    if (activePersonaId) {
+      sessionStorage.setItem(ACTIVE_PERSONA_STORAGE_KEY, activePersonaId);
+    } else {
+      sessionStorage.removeItem(ACTIVE_PERSONA_STORAGE_KEY);
+    }
+  }, [activePersonaId]);
+
+  const setDefaultVoice = useCallback((tool: VoiceTool, voice: string) => {
+    setDefaultVoices(prev => ({ ...prev, [tool]: voice }));
+  }, []);
+
+  const createPersona = useCallback((draft: LivePersonaDraft) => {
+    const persona: LivePersona = { ...draft, id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+    setPersonas(prev => [...prev, persona]);
+    return persona;
+  }, []);
+
+  const updatePersona = useCallback((id: string, draft: LivePersonaDraft) => {
+    setPersonas(prev => prev.map(persona => persona.id === id ? { ...persona, ...draft } : persona));
+  }, []);
+
+  const deletePersona = useCallback((id: string) => {
+    setPersonas(prev => prev.filter(persona => persona.id !== id));
+    setActivePersonaId(current => current === id ? null : current);
+  }, []);
+
+  const activePersona = personas.find(persona => persona.id === activePersonaId) ?? null;
+
+  return (
+    <VoiceSettingsContext.Provider value={{ defaultVoices, setDefaultVoice, personas, activePersona, setActivePersonaId, createPersona, updatePersona, deletePersona }}>
+      {children}
+    </VoiceSettingsContext.Provider>
+  );
+};
+
+export const useVoiceSettings = (): VoiceSettingsContextType => {
+  const context = useContext(VoiceSettingsContext);
+  if (context === undefined) {
+    throw new Error('useVoiceSettings must be used within a VoiceSettingsProvider');
+  }
+  return context;
+};
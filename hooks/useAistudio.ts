@@ -1,4 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
+import { getActiveProviderId } from '../services/aiProvider';
+import { classifyError } from '../services/apiErrors';
 
 // This is a mock of the aistudio object that will be available in the runtime environment
 // FIX: Using a named interface `AIStudio` to ensure type consistency for `window.aistudio` across global declarations.
@@ -22,7 +24,11 @@ export const useAistudio = () => {
     const [isLoading, setIsLoading] = useState(true);
 
     const checkKey = useCallback(async () => {
-        if (window.aistudio) {
+        if (getActiveProviderId() === 'mock') {
+            // The offline backend never talks to the API, so no key is needed.
+            setHasKey(true);
+            setIsLoading(false);
+        } else if (window.aistudio) {
             setIsLoading(true);
             const keyStatus = await window.aistudio.hasSelectedApiKey();
             setHasKey(keyStatus);
@@ -50,8 +56,8 @@ export const useAistudio = () => {
         }
     }, []);
 
-    const handleApiError = useCallback((error: any) => {
-        if (error?.message?.includes('Requested entity was not found.')) {
+    const handleApiError = useCallback((error: unknown) => {
+        if (classifyError(error).kind === 'auth') {
             console.error("API Key error. Prompting user to re-select.");
             setHasKey(false);
         }
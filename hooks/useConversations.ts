@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChatMessage, Conversation } from '../types';
+
+const CONVERSATIONS_STORAGE_KEY = 'chatConversations';
+const ACTIVE_CONVERSATION_STORAGE_KEY = 'activeConversationId';
+const DEFAULT_TITLE = 'New conversation';
+const AUTO_TITLE_LENGTH = 40;
+
+const createConversation = (): Conversation => {
+    const now = new Date().toISOString();
+    return { id: crypto.randomUUID(), title: DEFAULT_TITLE, messages: [], createdAt: now, updatedAt: now };
+};
+
+const loadConversations = (): Conversation[] => {
+    try {
+        const stored = window.localStorage.getItem(CONVERSATIONS_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.error("Could not parse chat conversations from localStorage", error);
+        return [];
+    }
+};
+
+// Untitled threads take their name from the first thing the user asked.
+const autoTitle = (conversation: Conversation, messages: ChatMessage[]) => {
+    if (conversation.title !== DEFAULT_TITLE) return conversation.title;
+    const firstUserMessage = messages.find(message => message.sender === 'user');
+    if (!firstUserMessage) return conversation.title;
+    const text = firstUserMessage.text.replace(/\s+/g, ' ').trim();
+    return text.length > AUTO_TITLE_LENGTH ? `${text.slice(0, AUTO_TITLE_LENGTH)}…` : text;
+};
+
+export const useConversations = () => {
+    const [conversations, setConversations] = useState<Conversation[]>(() => {
+        const stored = loadConversations();
+        return stored.length > 0 ? stored : [createConversation()];
+    });
+    const [activeId, setActiveId] = useState<string>(() => {
+        const storedId = window.localStorage.getItem(ACTIVE_CONVERSATION_STORAGE_KEY);
+        return storedId && conversations.some(c => c.id === storedId) ? storedId : conversations[0].id;
+    });
+
+    useEffect(() => {
+        try {
+            window.localStorage.setItem(CONVERSATIONS_STORAGE_KEY, JSON.stringify(conversations));
+        } catch (error) {
+            console.error("Could not save chat conversations to localStorage", error);
+        }
+    }, [conversations]);
+
+    useEffect(() => {
+        window.localStorage.setItem(ACTIVE_CONVERSATION_STORAGE_KEY, activeId);
+    }, [activeId]);
+
+    const activeConversation = conversations.find(c => c.id === activeId) ?? conversations[0];
+
+    const createNew = useCallback(() => {
+        const conversation = createConversation();
+        setConversations(prev => [conversation, ...prev]);
+        setActiveId(conversation.id);
+        return conversation.id;
+    }, []);
+
+    // Starts a new thread that shares the source thread's history up to a point,
+    // leaving the original untouched.
+    const fork = useCallback((source: Conversation, messages: ChatMessage[]) => {
+        const conversation = { ...createConversation(), title: `${source.title} (branch)`, messages };
+        setConversations(prev => [conversation, ...prev]);
+        setActiveId(conversation.id);
+        return conversation.id;
+    }, []);
+
+    const rename = useCallback((id: string, title: string) => {
+        const trimmed = title.trim();
+        if (!trimmed) return;
+        setConversations(prev => prev.map(c => c.id === id ? { ...c, title: trimmed } : c));
+    }, []);
+
+    const remove = useCallback((id: string) => {
+        const remaining = conversations.filter(c => c.id !== id);
+        const next = remaining.length > 0 ? remaining : [createConversation()];
+        setConversations(next);
+        if (activeId === id) {
+            setActiveId(next[0].id);
+        }
+    }, [conversations, activeId]);
+
+    const updateMessages = useCallback((id: string, update: (messages: ChatMessage[]) => ChatMessage[]) => {
+        setConversations(prev => {
+            const updated = prev.map(c => {
+                if (c.id !== id) return c;
+                const messages = update(c.messages);
+                return { ...c, messages, title: autoTitle(c, messages), updatedAt: new Date().toISOString() };
+            });
+            // Most recently active threads float to the top of the list.
+            return updated.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+        });
+    }, []);
+
+    return { conversations, activeConversation, setActiveId, createNew, fork, rename, remove, updateMessages };
+};
@@ -0,0 +1,94 @@
+import { useState, useCallback } from 'react';
+
+export interface EditStep {
+    id: string;
+    parentId: string | null; // null for the original image
+    image: string; // data URL
+    prompt: string;
+}
+
+// Edits form a tree: applying an edit to an earlier step starts a new branch
+// instead of discarding the steps that came after it.
+export const useEditHistory = () => {
+    const [steps, setSteps] = useState<EditStep[]>([]);
+    const [currentId, setCurrentId] = useState<string | null>(null);
+    // Remembers which child redo should follow from each step.
+    const [preferredChild, setPreferredChild] = useState<Record<string, string>>({});
+
+    const findStep = (id: string | null) => steps.find(step => step.id === id) ?? null;
+    const childrenOf = useCallback((id: string) => steps.filter(step => step.parentId === id), [steps]);
+
+    const current = findStep(currentId);
+
+    const nextStepAfter = (id: string) => {
+        const children = childrenOf(id);
+        return children.find(child => child.id === preferredChild[id]) ?? children[children.length - 1] ?? null;
+    };
+
+    // The visible line runs from the original through the current step and on
+    // along the redo path, so undone steps stay visible until replaced.
+    const line: EditStep[] = [];
+    for (let step = current; step; step = findStep(step.parentId)) {
+        line.unshift(step);
+    }
+    for (let step = current && nextStepAfter(current.id); step; step = nextStepAfter(step.id)) {
+        line.push(step);
+    }
+
+    const select = useCallback((id: string) => {
+        const step = steps.find(s => s.id === id);
+        if (!step) return;
+        setCurrentId(id);
+        if (step.parentId) {
+            setPreferredChild(prev => ({ ...prev, [step.parentId!]: id }));
+        }
+    }, [steps]);
+
+    const reset = useCallback((image: string, prompt: string = 'Original') => {
+        const root: EditStep = { id: crypto.randomUUID(), parentId: null, image, prompt };
+        setSteps([root]);
+        setCurrentId(root.id);
+        setPreferredChild({});
+    }, []);
+
+    const push = useCallback((image: string, prompt: string): string | null => {
+        if (!currentId) return null;
+        const step: EditStep = { id: crypto.randomUUID(), parentId: currentId, image, prompt };
+        setSteps(prev => [...prev, step]);
+        setPreferredChild(prev => ({ ...prev, [currentId]: step.id }));
+        setCurrentId(step.id);
+        return step.id;
+    }, [currentId]);
+
+    const undo = () => {
+        if (current?.parentId) setCurrentId(current.parentId);
+    };
+
+    const redo = () => {
+        const next = current && nextStepAfter(current.id);
+        if (next) setCurrentId(next.id);
+    };
+
+    // Cycles to the next sibling branch of the given step.
+    const switchBranch = (id: string) => {
+        const step = findStep(id);
+        if (!step?.parentId) return;
+        const siblings = childrenOf(step.parentId);
+        const next = siblings[(siblings.findIndex(s => s.id === id) + 1) % siblings.length];
+        select(next.id);
+    };
+
+    return {
+        current,
+        line,
+        childrenOf,
+        canUndo: !!current?.parentId,
+        canRedo: !!(current && nextStepAfter(current.id)),
+        reset,
+        push,
+        select,
+        undo,
+        redo,
+        switchBranch,
+    };
+};
@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+import { View } from '../components/Sidebar';
+import { navigate } from './useRoute';
+
+// "Send to" passes an output straight to another tool: the payload is held in
+// memory and the target route carries its id as `?handoff=<id>`. Images travel
+// as Files so unsaved results work too; `itemId` keeps library lineage.
+export type HandoffPayload =
+    | { kind: 'text'; text: string }
+    | { kind: 'image'; file: File; itemId?: string };
+
+export type HandoffKind = HandoffPayload['kind'];
+
+export const handoffTargets: Record<HandoffKind, View[]> = {
+    text: ['image-gen', 'video-gen', 'tts', 'chat'],
+    image: ['image-edit', 'headshot-gen', 'video-gen', 'content-analyzer'],
+};
+
+// Only the latest hand-off is kept. It is not cleared when read, because
+// StrictMode replays the receiving tool's mount effects.
+let pending: { id: string; payload: HandoffPayload } | null = null;
+
+export const sendTo = (view: View, payload: HandoffPayload) => {
+    pending = { id: crypto.randomUUID(), payload };
+    navigate(view, { handoff: pending.id });
+};
+
+// Declare it after the tool's own session-restore effect so the handed-off values win.
+export const useHandoff = (handoffId: string | undefined, apply: (payload: HandoffPayload) => void) => {
+    const appliedIdRef = useRef<string | null>(null);
+    // Tools pass an inline callback, so the effect calls the latest one instead of re-running for it.
+    const applyRef = useRef(apply);
+    applyRef.current = apply;
+
+    useEffect(() => {
+        if (!handoffId || appliedIdRef.current === handoffId) return;
+        appliedIdRef.current = handoffId;
+        if (pending?.id === handoffId) applyRef.current(pending.payload);
+    }, [handoffId]);
+
+    useEffect(() => () => {
+        appliedIdRef.current = null;
+    }, []);
+};
@@ -0,0 +1,31 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { CaptureChunk } from '../utils/audioCapture';
+
+// A clip warning stays up long enough to be noticed.
+const CLIP_HOLD_MS = 1000;
+
+// Tracks the microphone level from capture chunks for a LevelMeter.
+export const useInputLevel = () => {
+    const [peak, setPeak] = useState(0);
+    const [isClipping, setIsClipping] = useState(false);
+    const clipTimerRef = useRef<number | undefined>(undefined);
+
+    const update = useCallback((chunk: CaptureChunk) => {
+        setPeak(chunk.peak);
+        if (chunk.clipped) {
+            setIsClipping(true);
+            window.clearTimeout(clipTimerRef.current);
+            clipTimerRef.current = window.setTimeout(() => setIsClipping(false), CLIP_HOLD_MS);
+        }
+    }, []);
+
+    const reset = useCallback(() => {
+        window.clearTimeout(clipTimerRef.current);
+        setPeak(0);
+        setIsClipping(false);
+    }, []);
+
+    useEffect(() => () => window.clearTimeout(clipTimerRef.current), []);
+
+    return { peak, isClipping, update, reset };
+};
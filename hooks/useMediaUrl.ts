@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import { getMedia } from '../services/libraryStore';
+
+// Loads a library item's Blob from IndexedDB and exposes it as an object URL
+// for as long as the caller is mounted. Nothing is read until `enabled` is true,
+// which lets the library defer loading until a card scrolls into view.
+export const useMediaUrl = (itemId: string, enabled: boolean = true) => {
+    const [url, setUrl] = useState<string | null>(null);
+    const [isMissing, setIsMissing] = useState(false);
+
+    useEffect(() => {
+        if (!enabled) return;
+        let objectUrl: string | null = null;
+        let cancelled = false;
+
+        getMedia(itemId).then(blob => {
+            if (cancelled) return;
+            if (blob) {
+                objectUrl = URL.createObjectURL(blob);
+                setUrl(objectUrl);
+            } else {
+                setIsMissing(true);
+            }
+        }).catch(error => {
+            console.error(`Could not load media for library item ${itemId}`, error);
+            if (!cancelled) setIsMissing(true);
+        });
+
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [itemId, enabled]);
+
+    return { url, isMissing };
+};
@@ -0,0 +1,26 @@
+import { useEffect, useRef } from 'react';
+import { SavedItem } from '../types';
+import { useSavedContent } from '../contexts/SavedContentContext';
+
+// Pre-fills a tool from a library item's recorded settings when it is opened
+// through "Re-run with these settings". Declare it after the tool's own
+// session-restore effect so the re-run values win.
+export const useRerunItem = (itemId: string | undefined, apply: (item: SavedItem) => void) => {
+    const { savedItems, isLoading } = useSavedContent();
+    const appliedIdRef = useRef<string | null>(null);
+    // Tools pass an inline callback, so the effect calls the latest one instead of re-running for it.
+    const applyRef = useRef(apply);
+    applyRef.current = apply;
+
+    useEffect(() => {
+        if (!itemId || isLoading || appliedIdRef.current === itemId) return;
+        appliedIdRef.current = itemId;
+        const item = savedItems.find(i => i.id === itemId);
+        if (item) applyRef.current(item);
+    }, [itemId, isLoading, savedItems]);
+
+    // StrictMode replays mount effects, including the session restore, so apply again after a remount.
+    useEffect(() => () => {
+        appliedIdRef.current = null;
+    }, []);
+};
@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback } from 'react';
+import { View, views } from '../components/Sidebar';
+
+// Hash-based routing: `#/<view>?<params>`, e.g. `#/image-edit?item=<library id>`.
+// Using the hash keeps deep links working on static hosting without any
+// server-side rewrites, and the browser's back/forward buttons fire
+// `hashchange` for free.
+
+export type RouteParams = Record<string, string>;
+
+export interface Route {
+    view: View;
+    params: RouteParams;
+}
+
+const DEFAULT_VIEW: View = 'chat';
+
+export const parseRoute = (hash: string): Route => {
+    const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+    const view = views.includes(path as View) ? path as View : DEFAULT_VIEW;
+    return { view, params: Object.fromEntries(new URLSearchParams(query)) };
+};
+
+export const buildRouteHash = (view: View, params: RouteParams = {}): string => {
+    const query = new URLSearchParams(params).toString();
+    return `#/${view}${query ? `?${query}` : ''}`;
+};
+
+export const navigate = (view: View, params?: RouteParams) => {
+    window.location.hash = buildRouteHash(view, params);
+};
+
+export const useRoute = () => {
+    const [route, setRoute] = useState<Route>(() => parseRoute(window.location.hash));
+
+    useEffect(() => {
+        const handleHashChange = () => setRoute(parseRoute(window.location.hash));
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, []);
+
+    const navigateTo = useCallback((view: View, params?: RouteParams) => navigate(view, params), []);
+
+    return { route, navigate: navigateTo };
+};
@@ -0,0 +1,128 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { getErrorMessage } from '../services/apiErrors';
+import { gapBytes, joinPcm, pcmDurationMs } from '../utils/wavUtils';
+
+// Enough to speed up long scripts without tripping the API's rate limits.
+const MAX_PARALLEL_REQUESTS = 3;
+
+export type SegmentStatus = 'pending' | 'generating' | 'done' | 'failed';
+
+// One request's worth of a script. Segments in the same group (a paragraph or a
+// dialogue line) play back to back; groups are separated by the track's gap.
+export interface SpeechSegment {
+    key: string; // segments with the same text and voice settings share audio
+    group: number;
+    text: string;
+    speaker?: string;
+}
+
+export interface SegmentState extends SpeechSegment {
+    status: SegmentStatus;
+    error?: string;
+}
+
+export interface StitchedTrack {
+    pcm: Uint8Array;
+    // Where each part sits in the stitched audio, for aligning captions.
+    parts: { segment: SpeechSegment; startMs: number; pcm: Uint8Array }[];
+}
+
+interface Track {
+    segments: SpeechSegment[];
+    generate: (segment: SpeechSegment) => Promise<Uint8Array>;
+    gapMs: number;
+    sampleRate: number;
+}
+
+// Generates a script as separate PCM segments and stitches them into one track.
+// Audio is kept per segment, so generating again after an edit only redoes the
+// parts whose text or settings changed, and any part can be redone on its own.
+export const useSpeechTrack = () => {
+    const [segments, setSegments] = useState<SegmentState[]>([]);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const trackRef = useRef<Track | null>(null);
+    const audioRef = useRef(new Map<string, Uint8Array>());
+    // Bumped by every new generation and on unmount, so results of an abandoned run are ignored.
+    const runRef = useRef(0);
+
+    const updateSegment = useCallback((index: number, patch: Partial<SegmentState>) => {
+        setSegments(prev => prev.map((segment, i) => i === index ? { ...segment, ...patch } : segment));
+    }, []);
+
+    // Joins the track once every segment has audio; null while any is missing.
+    // Every part is 16-bit PCM at the track's sample rate, so the bytes are joined as they are.
+    const stitch = useCallback((): StitchedTrack | null => {
+        const track = trackRef.current;
+        if (!track || !track.segments.every(segment => audioRef.current.has(segment.key))) return null;
+        const groups: Uint8Array[][] = [];
+        const parts: StitchedTrack['parts'] = [];
+        let offsetMs = 0;
+        track.segments.forEach((segment, i) => {
+            const pcm = audioRef.current.get(segment.key)!;
+            (groups[segment.group] ??= []).push(pcm);
+            if (i > 0 && segment.group !== track.segments[i - 1].group) offsetMs += pcmDurationMs(gapBytes(track.gapMs, track.sampleRate), track.sampleRate);
+            parts.push({ segment, startMs: offsetMs, pcm });
+            offsetMs += pcmDurationMs(pcm.byteLength, track.sampleRate);
+        });
+        const pcm = joinPcm(groups.filter(Boolean).map(group => joinPcm(group, 0, track.sampleRate)), track.gapMs, track.sampleRate);
+        return { pcm, parts };
+    }, []);
+
+    const generateIndexes = useCallback(async (indexes: number[]): Promise<StitchedTrack | null> => {
+        const track = trackRef.current;
+        if (!track) return null;
+        const run = ++runRef.current;
+        setIsGenerating(true);
+        let next = 0;
+        const worker = async () => {
+            while (next < indexes.length && run === runRef.current) {
+                const index = indexes[next++];
+                const segment = track.segments[index];
+                updateSegment(index, { status: 'generating', error: undefined });
+                try {
+                    const pcm = await track.generate(segment);
+                    if (run !== runRef.current) return;
+                    audioRef.current.set(segment.key, pcm);
+                    updateSegment(index, { status: 'done' });
+                } catch (err) {
+                    if (run !== runRef.current) return;
+                    console.error(`Could not generate part ${index + 1} of the script:`, err);
+                    updateSegment(index, { status: 'failed', error: getErrorMessage(err, 'This part could not be generated.') });
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(MAX_PARALLEL_REQUESTS, indexes.length) }, worker));
+        if (run !== runRef.current) return null;
+        setIsGenerating(false);
+        return stitch();
+    }, [updateSegment, stitch]);
+
+    // Resolves to the stitched track, or null if any part failed.
+    const generate = useCallback(async (track: Track): Promise<StitchedTrack | null> => {
+        trackRef.current = track;
+        const keys = new Set(track.segments.map(segment => segment.key));
+        // Audio for parts no longer in the script is dropped.
+        audioRef.current.forEach((_, key) => {
+            if (!keys.has(key)) audioRef.current.delete(key);
+        });
+        setSegments(track.segments.map(segment => ({ ...segment, status: audioRef.current.has(segment.key) ? 'done' : 'pending' })));
+        const missing = track.segments.flatMap((segment, i) => audioRef.current.has(segment.key) ? [] : [i]);
+        return generateIndexes(missing);
+    }, [generateIndexes]);
+
+    // Redoes the given segments with the settings the track was generated with, even if they already have audio.
+    const regenerate = useCallback(async (indexes: number[]): Promise<StitchedTrack | null> => {
+        indexes.forEach(index => {
+            const segment = trackRef.current?.segments[index];
+            if (segment) audioRef.current.delete(segment.key);
+            updateSegment(index, { status: 'pending', error: undefined });
+        });
+        return generateIndexes(indexes);
+    }, [updateSegment, generateIndexes]);
+
+    useEffect(() => () => {
+        runRef.current += 1;
+    }, []);
+
+    return { segments, isGenerating, generate, regenerate };
+};
@@ -0,0 +1,62 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { dataUrlToPayload } from '../utils/fileUtils';
+
+export type VideoSource = 'camera' | 'screen';
+
+// Frames are scaled down so each one stays small enough to stream alongside audio.
+const MAX_FRAME_WIDTH = 1024;
+const JPEG_QUALITY = 0.7;
+
+// Shares the camera or screen as periodic JPEG frames. Attach `videoRef` to a
+// <video> element; it is both the preview and the source frames are taken from.
+export const useVideoFrames = (onFrame: (frame: { base64: string; mimeType: string }) => void, framesPerSecond: number) => {
+    const [source, setSource] = useState<VideoSource | null>(null);
+    const [stream, setStream] = useState<MediaStream | null>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const onFrameRef = useRef(onFrame);
+    onFrameRef.current = onFrame;
+
+    const stop = useCallback(() => {
+        streamRef.current?.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+        setStream(null);
+        setSource(null);
+    }, []);
+
+    // Rejects if the user denies access or cancels the screen picker.
+    const start = useCallback(async (next: VideoSource) => {
+        const nextStream = next === 'screen'
+            ? await navigator.mediaDevices.getDisplayMedia({ video: true })
+            : await navigator.mediaDevices.getUserMedia({ video: true });
+        streamRef.current?.getTracks().forEach(track => track.stop());
+        // Fired when sharing is ended from the browser's own controls.
+        nextStream.getVideoTracks()[0]?.addEventListener('ended', stop);
+        streamRef.current = nextStream;
+        setStream(nextStream);
+        setSource(next);
+    }, [stop]);
+
+    useEffect(() => {
+        if (videoRef.current) videoRef.current.srcObject = stream;
+    }, [stream]);
+
+    useEffect(() => {
+        if (!stream) return;
+        const canvas = document.createElement('canvas');
+        const timer = setInterval(() => {
+            const video = videoRef.current;
+            if (!video || video.readyState < video.HAVE_CURRENT_DATA || !video.videoWidth) return;
+            const scale = Math.min(1, MAX_FRAME_WIDTH / video.videoWidth);
+            canvas.width = Math.round(video.videoWidth * scale);
+            canvas.height = Math.round(video.videoHeight * scale);
+            canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+            onFrameRef.current(dataUrlToPayload(canvas.toDataURL('image/jpeg', JPEG_QUALITY)));
+        }, 1000 / framesPerSecond);
+        return () => clearInterval(timer);
+    }, [stream, framesPerSecond]);
+
+    useEffect(() => stop, [stop]);
+
+    return { source, videoRef, start, stop };
+};
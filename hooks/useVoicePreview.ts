@@ -0,0 +1,73 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { generateSpeech } from '../services/geminiService';
+import { getActiveProviderId } from '../services/aiProvider';
+import { getErrorMessage } from '../services/apiErrors';
+import { decode } from '../utils/audioUtils';
+import { pcmToWav } from '../utils/wavUtils';
+
+const PREVIEW_SAMPLE_RATE = 24000;
+const previewText = (voice: string) => `Hi, I'm ${voice}. This is how your next script would sound in my voice.`;
+
+// Each voice's sample is generated once per backend and page load, then replayed from memory.
+const previewCache = new Map<string, Blob>();
+
+// Stops whichever preview is playing, so two pickers on one page never talk over each other.
+let stopActivePreview: (() => void) | null = null;
+
+// Plays a short spoken sample of a voice.
+export const useVoicePreview = () => {
+    const [playingVoice, setPlayingVoice] = useState<string | null>(null);
+    const [loadingVoice, setLoadingVoice] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const audioRef = useRef<HTMLAudioElement | null>(null);
+    const urlRef = useRef<string | null>(null);
+    // Bumped whenever a new preview starts or playback stops, so a slow request can't start playing late.
+    const requestRef = useRef(0);
+
+    const stop = useCallback(() => {
+        requestRef.current += 1;
+        audioRef.current?.pause();
+        audioRef.current = null;
+        if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+        urlRef.current = null;
+        setPlayingVoice(null);
+        setLoadingVoice(null);
+    }, []);
+
+    const play = useCallback(async (voice: string) => {
+        stopActivePreview?.();
+        stopActivePreview = stop;
+        stop();
+        const request = requestRef.current;
+        const cacheKey = `${getActiveProviderId()}:${voice}`;
+        setError(null);
+        try {
+            let blob = previewCache.get(cacheKey);
+            if (!blob) {
+                setLoadingVoice(voice);
+                blob = pcmToWav(decode(await generateSpeech(previewText(voice), null, voice)), PREVIEW_SAMPLE_RATE);
+                previewCache.set(cacheKey, blob);
+            }
+            if (request !== requestRef.current) return;
+            setLoadingVoice(null);
+            const url = URL.createObjectURL(blob);
+            const audio = new Audio(url);
+            audio.addEventListener('ended', () => {
+                if (audioRef.current === audio) stop();
+            });
+            audioRef.current = audio;
+            urlRef.current = url;
+            setPlayingVoice(voice);
+            await audio.play();
+        } catch (err) {
+            if (request !== requestRef.current) return;
+            console.error(`Could not preview voice ${voice}:`, err);
+            stop();
+            setError(getErrorMessage(err, 'The voice preview could not be played.'));
+        }
+    }, [stop]);
+
+    useEffect(() => stop, [stop]);
+
+    return { playingVoice, loadingVoice, error, play, stop };
+};
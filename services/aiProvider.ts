@@ -0,0 +1,109 @@
+import type { FunctionDeclaration, LiveServerMessage, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters, Schema } from "@google/genai";
+import { ChatMessage, GroundingChunk } from "../types";
+import { geminiProvider } from "./providers/geminiProvider";
+import { mockProvider } from "./providers/mockProvider";
+
+export type ProviderId = 'gemini' | 'mock';
+
+export interface MediaPayload {
+  base64: string;
+  mimeType: string;
+}
+
+export type PersonGeneration = 'DONT_ALLOW' | 'ALLOW_ADULT' | 'ALLOW_ALL';
+
+export interface ImageGenerationOptions {
+  numberOfImages: number;
+  seed?: number;
+  negativePrompt?: string;
+  personGeneration?: PersonGeneration;
+}
+
+export interface GroundedResponse {
+  text: string;
+  sources: GroundingChunk[];
+}
+
+export interface ChatSession {
+  // Yields the reply text incrementally. Aborting the signal ends the stream
+  // with an AbortError; the session should be discarded afterwards because its
+  // history no longer matches what the user saw.
+  sendMessageStream: (message: string, signal?: AbortSignal) => AsyncGenerator<string>;
+}
+
+export interface LiveCallbacks {
+  onopen: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror: (e: ErrorEvent) => void;
+  onclose: (e: CloseEvent) => void;
+}
+
+export interface LiveSession {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  close: () => void;
+}
+
+export interface SpeakerVoice {
+  speaker: string; // as it appears in the prompt's "SPEAKER: line" labels
+  voice: string;
+}
+
+export type ModelRole = 'fast' | 'advanced' | 'general' | 'image' | 'imageEdit' | 'video' | 'speech' | 'live';
+
+// Every backend implements the same set of capabilities. Prompt construction
+// stays in geminiService so the backends only deal with transport.
+export interface AiProvider {
+  id: ProviderId;
+  name: string;
+  models: Record<ModelRole, string>; // recorded with saved items
+  supportsImageSeed: boolean; // whether generateImage honours options.seed
+  generateText: (prompt: string, tier: 'fast' | 'advanced') => Promise<string>;
+  generateGroundedText: (prompt: string) => Promise<GroundedResponse>;
+  generateJson: <T>(prompt: string, schema: Schema) => Promise<T>;
+  analyzeMedia: (prompt: string, media: MediaPayload) => Promise<string>;
+  createChat: (systemInstruction: string, history: ChatMessage[]) => ChatSession;
+  // Resolves to as many images as passed the safety filters, in request order.
+  generateImage: (prompt: string, aspectRatio: string, options: ImageGenerationOptions) => Promise<string[]>;
+  // The optional mask is a black-and-white PNG the same size as the source; white marks the area to change.
+  editImage: (prompt: string, sourceImage: MediaPayload, referenceImage?: MediaPayload, mask?: MediaPayload) => Promise<string>;
+  // Video generation runs as a long server-side operation. Its id is a plain
+  // string so it can be persisted and polled again after a reload.
+  startVideoGeneration: (prompt: string, aspectRatio: '16:9' | '9:16', image?: MediaPayload) => Promise<string>;
+  // Resolves to null while the operation is still running.
+  getVideoResult: (operationId: string) => Promise<Blob | null>;
+  generateSpeech: (prompt: string, voice: string) => Promise<string>;
+  // Multi-speaker speech takes exactly two speakers.
+  generateDialogueSpeech: (prompt: string, speakers: SpeakerVoice[]) => Promise<string>;
+  connectLive: (callbacks: LiveCallbacks, systemInstruction: string, voice: string, tools: FunctionDeclaration[]) => Promise<LiveSession>;
+}
+
+const PROVIDER_STORAGE_KEY = 'aiProvider';
+
+export const providers: Record<ProviderId, AiProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+export const getActiveProviderId = (): ProviderId => {
+  try {
+    const stored = window.localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (stored === 'gemini' || stored === 'mock') {
+      return stored;
+    }
+  } catch (error) {
+    console.error("Could not read AI provider from localStorage", error);
+  }
+  // Without a key the live backend can't do anything, so fall back to the offline one.
+  return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+export const setActiveProviderId = (id: ProviderId) => {
+  try {
+    window.localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  } catch (error) {
+    console.error("Could not save AI provider to localStorage", error);
+  }
+};
+
+export const getProvider = (): AiProvider => providers[getActiveProviderId()];
@@ -0,0 +1,131 @@
+// One error model for every backend call, so each tool can show the same
+// wording for the same problem and transient failures can be retried.
+
+export type AiErrorKind = 'auth' | 'rate-limit' | 'quota' | 'safety' | 'network' | 'server' | 'empty-response' | 'unknown';
+
+interface AiErrorDetails {
+  message?: string;
+  retryAfterMs?: number;
+  blockReason?: string;
+  cause?: unknown;
+}
+
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+const describe = (kind: AiErrorKind, { retryAfterMs, blockReason }: AiErrorDetails): string => {
+  switch (kind) {
+    case 'auth':
+      return 'Your API key was rejected or has no access to this model. Please select a valid key and try again.';
+    case 'rate-limit':
+      return retryAfterMs
+        ? `You've hit the API rate limit. Please wait ${Math.ceil(retryAfterMs / 1000)} seconds and try again.`
+        : "You've hit the API rate limit or quota. Please wait a moment and try again.";
+    case 'quota':
+      return "You've used up the API quota for today. Try again tomorrow or use a key with a higher quota.";
+    case 'safety':
+      return blockReason
+        ? `This request was blocked by the safety filters (${blockReason.toLowerCase().replace(/_/g, ' ')}). Try rephrasing it.`
+        : 'This request was blocked by the safety filters. Try rephrasing it.';
+    case 'network':
+      return "Couldn't reach the AI service. Check your connection and try again.";
+    case 'server':
+      return 'The AI service is temporarily unavailable. Please try again shortly.';
+    case 'empty-response':
+      return 'The AI returned an empty response. Please try again or rephrase your request.';
+    case 'unknown':
+    default:
+      return 'An unknown error occurred.';
+  }
+};
+
+export class AiServiceError extends Error {
+  readonly kind: AiErrorKind;
+  readonly retryAfterMs?: number;
+  readonly blockReason?: string;
+
+  constructor(kind: AiErrorKind, details: AiErrorDetails = {}) {
+    super(details.message || describe(kind, details), { cause: details.cause });
+    this.name = 'AiServiceError';
+    this.kind = kind;
+    this.retryAfterMs = details.retryAfterMs;
+    this.blockReason = details.blockReason;
+  }
+
+  get isTransient() {
+    return this.kind === 'rate-limit' || this.kind === 'network' || this.kind === 'server';
+  }
+}
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Rate-limit responses carry a RetryInfo detail such as "retryDelay": "31s".
+const parseRetryAfterMs = (message: string): number | undefined => {
+  const match = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// Quota ids name the window, e.g. "GenerateRequestsPerDayPerProjectPerModel".
+const isDailyQuota = (message: string) => /PerDay|per day|daily/i.test(message);
+
+// The SDK reports HTTP failures as errors with a numeric `status`, which is
+// trusted over the message; everything else is recognised from the message.
+// Rate limits are matched before auth, since quota messages can mention the API key.
+export const classifyError = (error: unknown): AiServiceError => {
+  if (error instanceof AiServiceError) return error;
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : String((error as { message?: unknown })?.message ?? '');
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+
+  const rateLimited = () => isDailyQuota(message)
+    ? new AiServiceError('quota', { cause: error })
+    : new AiServiceError('rate-limit', { retryAfterMs: parseRetryAfterMs(message), cause: error });
+
+  if (status === 401 || status === 403) return new AiServiceError('auth', { cause: error });
+  if (status === 429) return rateLimited();
+  if (status !== undefined && status >= 500) return new AiServiceError('server', { cause: error });
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return rateLimited();
+  if (/API[_ ]?key|Requested entity was not found|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new AiServiceError('auth', { cause: error });
+  }
+  if (/UNAVAILABLE|overloaded|DEADLINE_EXCEEDED|INTERNAL/.test(message)) {
+    return new AiServiceError('server', { cause: error });
+  }
+  if ((error instanceof TypeError && /fetch|network|load failed/i.test(message)) || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return new AiServiceError('network', { cause: error });
+  }
+  return new AiServiceError('unknown', { message, cause: error });
+};
+
+export const getErrorMessage = (error: unknown, fallback: string = 'An unknown error occurred.'): string => {
+  const classified = classifyError(error);
+  // Unrecognised errors keep their own message; without one the caller's wording is used.
+  if (classified.kind === 'unknown' && classified.message === describe('unknown', {})) return fallback;
+  return classified.message;
+};
+
+// Returns how long to wait before retrying, or null when the error should be
+// surfaced. Honours the server's retry-after when it fits within the cap.
+export const getRetryDelayMs = (error: AiServiceError, attempt: number): number | null => {
+  if (!error.isTransient || attempt >= MAX_RETRIES) return null;
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= MAX_RETRY_DELAY_MS ? error.retryAfterMs : null;
+  }
+  const backoff = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return backoff / 2 + Math.random() * (backoff / 2);
+};
+
+export const withRetry = async <T,>(operation: () => Promise<T>): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const classified = classifyError(error);
+      const delayMs = getRetryDelayMs(classified, attempt);
+      if (delayMs === null) throw classified;
+      console.warn(`Retrying after ${classified.kind} error (attempt ${attempt + 1} of ${MAX_RETRIES})`, error);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+};
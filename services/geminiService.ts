@@ -1,71 +1,84 @@
-import { GoogleGenAI, Modality, Type, GenerateContentResponse, Chat } from "@google/genai";
-
-const getGenAI = () => {
-  if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
+import { getProvider, getActiveProviderId, providers, ChatSession, GroundedResponse, ImageGenerationOptions, LiveCallbacks, LiveSession, MediaPayload, ModelRole, ProviderId, SpeakerVoice } from "./aiProvider";
+import { FunctionDeclaration, Type } from "@google/genai";
+import { withRetry, classifyError, getRetryDelayMs, isAbortError } from "./apiErrors";
+import { BrandVoice, ChatMessage, DialogueLine, LivePersona } from "../types";
+
+// Model ids are recorded with saved items; jobs pass the provider they ran on.
+export const getModelId = (role: ModelRole, providerId: ProviderId = getActiveProviderId()) => providers[providerId].models[role];
+
+export const supportsImageSeed = () => getProvider().supportsImageSeed;
+
+// Brand Voice
+export const describeBrandVoice = (brandVoice: BrandVoice): string => {
+  const lines = [`Write in the "${brandVoice.name}" brand voice.`];
+  if (brandVoice.tone) lines.push(`Tone: ${brandVoice.tone}.`);
+  if (brandVoice.audience) lines.push(`Target audience: ${brandVoice.audience}.`);
+  if (brandVoice.bannedWords.length > 0) lines.push(`Never use these words: ${brandVoice.bannedWords.join(', ')}.`);
+  if (brandVoice.hashtags.length > 0) lines.push(`Preferred hashtags: ${brandVoice.hashtags.map(tag => `#${tag}`).join(' ')}.`);
+  if (brandVoice.examplePosts.length > 0) {
+    lines.push('Example posts in this voice:', ...brandVoice.examplePosts.map(post => `---\n${post}`), '---');
   }
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return lines.join('\n');
 };
 
-// Image Generation
-export const generateImage = async (prompt: string, aspectRatio: string) => {
-  const ai = getGenAI();
-  const response = await ai.models.generateImages({
-    model: 'imagen-4.0-generate-001',
-    prompt,
-    config: {
-      numberOfImages: 1,
-      outputMimeType: 'image/jpeg',
-      aspectRatio: aspectRatio as "1:1" | "3:4" | "4:3" | "9:16" | "16:9",
+const withBrandVoice = (prompt: string, brandVoice?: BrandVoice | null) =>
+  brandVoice ? `${describeBrandVoice(brandVoice)}\n\n${prompt}` : prompt;
+
+const withBrandVoiceInstruction = (systemInstruction: string, brandVoice?: BrandVoice | null) =>
+  brandVoice ? `${systemInstruction}\n\n${describeBrandVoice(brandVoice)}` : systemInstruction;
+
+export const extractHashtags = (text: string): string[] =>
+  Array.from(new Set((text.match(/#[\p{L}\p{N}_]+/gu) ?? []).map(tag => tag.slice(1).toLowerCase())));
+
+// Learns tone, audience and hashtags from a set of the creator's own captions.
+export const trainBrandVoice = async (samples: string[]): Promise<Pick<BrandVoice, 'tone' | 'audience' | 'hashtags'>> => {
+  const result = await withRetry(() => getProvider().generateJson<{ tone: string; audience: string; hashtags: string[] }>(
+    `Analyze these social media captions written by one creator and describe their brand voice.\n\n${samples.map(sample => `---\n${sample}`).join('\n')}`,
+    {
+      type: Type.OBJECT,
+      properties: {
+        tone: { type: Type.STRING, description: 'A short description of the writing tone, e.g. "playful, warm, uses lots of emoji".' },
+        audience: { type: Type.STRING, description: 'Who the captions are written for.' },
+        hashtags: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Hashtags that fit this voice, without the # sign.' },
+      },
+      required: ['tone', 'audience', 'hashtags'],
     },
-  });
-  return `data:image/jpeg;base64,${response.generatedImages[0].image.imageBytes}`;
+  ));
+  const hashtags = [...extractHashtags(samples.join('\n')), ...result.hashtags.map(tag => tag.replace(/^#/, '').toLowerCase())];
+  return { tone: result.tone, audience: result.audience, hashtags: Array.from(new Set(hashtags)) };
+};
+
+// Image Generation
+export const generateImage = async (prompt: string, aspectRatio: string, options: ImageGenerationOptions = { numberOfImages: 1 }) => {
+  return withRetry(() => getProvider().generateImage(prompt, aspectRatio, options));
 };
 
 // Image Editing
+// The image model has no dedicated mask input, so the mask travels as the last
+// image and the prompt explains how to read it.
+const MASK_INSTRUCTION = "The last image provided is a black-and-white mask of the source image. Apply the edit only inside the white areas of the mask, blending smoothly across grey edges, and leave everything in the black areas exactly as it is in the source image.";
+
 export const editImage = async (
   prompt: string,
-  sourceImage: { base64: string; mimeType: string },
-  referenceImage?: { base64: string; mimeType: string }
+  sourceImage: MediaPayload,
+  referenceImage?: MediaPayload,
+  mask?: MediaPayload
 ) => {
-  const ai = getGenAI();
-  const parts: ({ inlineData: { data: string, mimeType: string } } | { text: string })[] = [
-    { inlineData: { data: sourceImage.base64, mimeType: sourceImage.mimeType } },
-  ];
-
-  if (referenceImage) {
-    parts.push({ inlineData: { data: referenceImage.base64, mimeType: referenceImage.mimeType } });
-  }
-
-  parts.push({ text: prompt });
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: {
-      parts,
-    },
-    config: {
-      responseModalities: [Modality.IMAGE],
-    },
-  });
-
-  const part = response.candidates?.[0]?.content?.parts?.[0];
-  if (part?.inlineData) {
-    return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-  }
-  throw new Error("Could not edit image.");
+  const fullPrompt = mask ? `${prompt}\n\n${MASK_INSTRUCTION}` : prompt;
+  return withRetry(() => getProvider().editImage(fullPrompt, sourceImage, referenceImage, mask));
 };
 
 // AI Photoshoot Lounge Generation
 export const generateHeadshots = async (
-    imageBase64: string, 
-    mimeType: string, 
-    profession: string, 
-    photoshootType: string, 
-    details: string
+    imageBase64: string,
+    mimeType: string,
+    profession: string,
+    photoshootType: string,
+    details: string,
+    onProgress?: (completed: number, total: number) => void
 ): Promise<string[]> => {
-    const ai = getGenAI();
-    const imagePart = { inlineData: { data: imageBase64, mimeType } };
+    const provider = getProvider();
+    const sourceImage = { base64: imageBase64, mimeType };
 
     // Construct a detailed base prompt from user inputs
     const basePrompt = `A ${photoshootType} photoshoot featuring the person from the uploaded image. They are a professional ${profession}. ${details}`;
@@ -78,202 +91,146 @@ export const generateHeadshots = async (
         `${basePrompt}. An artistic, dramatic black and white interpretation with high-contrast lighting.`
     ];
 
+    let completed = 0;
+    const errors: unknown[] = [];
     const generationPromises = personaPrompts.map(prompt => {
-        return ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: {
-                parts: [
-                    imagePart,
-                    { text: `Generate a new, full image of the person from the original photo, placing them in this new scene: ${prompt}. It is crucial that the person's face is preserved and recognizable.` },
-                ],
-            },
-            config: {
-                responseModalities: [Modality.IMAGE],
-            },
-        }).then(response => {
-            const part = response.candidates?.[0]?.content?.parts?.[0];
-            if (part?.inlineData) {
-                return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-            }
-            return null;
-        }).catch(error => {
+        return withRetry(() => provider.editImage(
+            `Generate a new, full image of the person from the original photo, placing them in this new scene: ${prompt}. It is crucial that the person's face is preserved and recognizable.`,
+            sourceImage,
+        )).catch(error => {
             console.error(`Persona generation failed for prompt: "${prompt}"`, error);
+            errors.push(error);
             return null;
+        }).finally(() => {
+            completed += 1;
+            onProgress?.(completed, personaPrompts.length);
         });
     });
 
     const results = await Promise.all(generationPromises);
-    return results.filter((result): result is string => result !== null);
+    const images = results.filter((result): result is string => result !== null);
+    // Partial results are still useful; only surface an error when nothing came back.
+    if (images.length === 0 && errors.length > 0) {
+        throw errors[0];
+    }
+    return images;
 };
 
-// FIX: Add generateVideo function to fix import error in VideoGenerator.tsx
 // Video Generation
-export const generateVideo = async (
+export const startVideoGeneration = async (
   prompt: string,
   aspectRatio: '16:9' | '9:16',
-  imagePayload?: { base64: string; mimeType: string }
+  imagePayload?: MediaPayload
 ): Promise<string> => {
-  const ai = getGenAI();
-  
-  const request: any = {
-    model: 'veo-3.1-fast-generate-preview',
-    prompt,
-    config: {
-      numberOfVideos: 1,
-      resolution: '720p',
-      aspectRatio: aspectRatio,
-    },
-  };
-
-  if (imagePayload) {
-    request.image = {
-      imageBytes: imagePayload.base64,
-      mimeType: imagePayload.mimeType,
-    };
-  }
-
-  let operation = await ai.models.generateVideos(request);
-
-  while (!operation.done) {
-    await new Promise(resolve => setTimeout(resolve, 10000));
-    operation = await ai.operations.getVideosOperation({ operation });
-  }
-
-  const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-
-  if (!downloadLink) {
-    throw new Error('Video generation failed or did not return a download link.');
-  }
+  return withRetry(() => getProvider().startVideoGeneration(prompt, aspectRatio, imagePayload));
+};
 
-  const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-  if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(`Failed to download video: ${response.statusText}. ${errorBody}`);
-  }
-  const videoBlob = await response.blob();
-  return URL.createObjectURL(videoBlob);
+// Operations are polled on the backend that started them, even if the user has switched since.
+export const getVideoResult = async (operationId: string, providerId: ProviderId): Promise<Blob | null> => {
+  return withRetry(() => providers[providerId].getVideoResult(operationId));
 };
 
 
 // Image Understanding
-export const analyzeImage = async (prompt: string, imageBase64: string, mimeType: string) => {
-    const ai = getGenAI();
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: {
-            parts: [
-                { inlineData: { data: imageBase64, mimeType } },
-                { text: prompt },
-            ],
-        }
-    });
-    return response.text;
+export const analyzeImage = async (prompt: string, imageBase64: string, mimeType: string, brandVoice?: BrandVoice | null) => {
+    return withRetry(() => getProvider().analyzeMedia(withBrandVoice(prompt, brandVoice), { base64: imageBase64, mimeType }));
 };
 
 // AI Chat
-let chatInstance: Chat | null = null;
-export const getChat = () => {
-    if (!chatInstance) {
-        const ai = getGenAI();
-        chatInstance = ai.chats.create({
-            model: 'gemini-2.5-flash',
-             config: {
-                systemInstruction: "You are an AI assistant for The Digital Dollhouse Creator AI app, and an expert social media assistant. Help the user brainstorm ideas, write captions, and create engaging content. Mimic their style if they provide examples.",
-            },
-        });
-    }
-    return chatInstance;
+const CHAT_SYSTEM_INSTRUCTION = "You are an AI assistant for The Digital Dollhouse Creator AI app, and an expert social media assistant. Help the user brainstorm ideas, write captions, and create engaging content. Mimic their style if they provide examples.";
+
+// A reply that fails before any text arrives is retried like any other call;
+// once text has been shown the error is surfaced instead of repeating it.
+const withStreamRetry = (session: ChatSession): ChatSession => ({
+    sendMessageStream: async function* (message, signal) {
+        for (let attempt = 0; ; attempt++) {
+            let hasYielded = false;
+            try {
+                for await (const chunk of session.sendMessageStream(message, signal)) {
+                    hasYielded = true;
+                    yield chunk;
+                }
+                return;
+            } catch (error) {
+                if (isAbortError(error) || signal?.aborted) throw error;
+                const classified = classifyError(error);
+                const delayMs = hasYielded ? null : getRetryDelayMs(classified, attempt);
+                if (delayMs === null) throw classified;
+                await new Promise(resolve => setTimeout(resolve, delayMs));
+            }
+        }
+    },
+});
+
+// Starts a chat session primed with an earlier conversation so a saved thread
+// can pick up where it left off. Local error notices are not part of the history.
+export const createChatSession = (history: ChatMessage[] = [], brandVoice?: BrandVoice | null): ChatSession => {
+    return withStreamRetry(getProvider().createChat(
+        withBrandVoiceInstruction(CHAT_SYSTEM_INSTRUCTION, brandVoice),
+        history.filter(message => !message.isError),
+    ));
 };
 
 // Content Analysis with Search Grounding
-export const getGroundedResponse = async (prompt: string) => {
-    const ai = getGenAI();
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt,
-        config: {
-            tools: [{ googleSearch: {} }],
-        },
-    });
-    return response;
+export const getGroundedResponse = async (prompt: string, brandVoice?: BrandVoice | null): Promise<GroundedResponse> => {
+    return withRetry(() => getProvider().generateGroundedText(withBrandVoice(prompt, brandVoice)));
 };
 
 // General Fast Task
-export const getFastResponse = async (prompt: string) => {
-    const ai = getGenAI();
-    const response = await ai.models.generateContent({
-        model: 'gemini-flash-lite-latest',
-        contents: prompt,
-    });
-    return response.text;
+export const getFastResponse = async (prompt: string, brandVoice?: BrandVoice | null) => {
+    return withRetry(() => getProvider().generateText(withBrandVoice(prompt, brandVoice), 'fast'));
 };
 
 // General Complex Task
-export const getAdvancedResponse = async (prompt: string) => {
-    const ai = getGenAI();
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-pro',
-        contents: prompt,
-    });
-    return response.text;
+export const getAdvancedResponse = async (prompt: string, brandVoice?: BrandVoice | null) => {
+    return withRetry(() => getProvider().generateText(withBrandVoice(prompt, brandVoice), 'advanced'));
 };
 
 // Voice Style Analysis
 export const analyzeVoiceStyle = async (audioBase64: string, mimeType: string): Promise<string> => {
-    const ai = getGenAI();
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash', // Multimodal model
-        contents: {
-            parts: [
-                { inlineData: { data: audioBase64, mimeType } },
-                { text: "Analyze the vocal characteristics of the speaker in this audio. Describe their pitch (e.g., low, medium, high), pace (e.g., slow, moderate, fast), and tone (e.g., energetic, calm, formal). Respond with only three descriptive words, separated by commas. For example: high-pitch, fast, energetic" },
-            ],
-        }
-    });
-    return response.text;
+    return withRetry(() => getProvider().analyzeMedia(
+        "Analyze the vocal characteristics of the speaker in this audio. Describe their pitch (e.g., low, medium, high), pace (e.g., slow, moderate, fast), and tone (e.g., energetic, calm, formal). Respond with only three descriptive words, separated by commas. For example: high-pitch, fast, energetic",
+        { base64: audioBase64, mimeType },
+    ));
 };
 
 // TTS
-export const generateSpeech = async (text: string, voiceStyle?: string | null): Promise<string> => {
-    const ai = getGenAI();
+export const DEFAULT_SPEECH_VOICE = 'Kore';
+
+export const generateSpeech = async (text: string, voiceStyle?: string | null, voice: string = DEFAULT_SPEECH_VOICE): Promise<string> => {
     const promptText = voiceStyle
         ? `Generate audio for the following text using a voice with these characteristics: ${voiceStyle}. Text: "${text}"`
         : `Say this with a friendly, engaging tone: ${text}`;
-        
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: promptText }] }],
-        config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-                voiceConfig: {
-                    prebuiltVoiceConfig: { voiceName: 'Kore' },
-                },
-            },
-        },
-    });
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) {
-        throw new Error("TTS generation failed");
+    return withRetry(() => getProvider().generateSpeech(promptText, voice));
+};
+
+// Dialogue lines are spoken one at a time so the pauses between them can be set
+// when stitching. With exactly two speakers each line uses the multi-speaker
+// config, which that mode requires; any other cast speaks each line in its own voice.
+export const generateDialogueLine = async (line: DialogueLine, speakers: SpeakerVoice[]): Promise<string> => {
+    if (speakers.length === 2) {
+        const names = speakers.map(({ speaker }) => speaker).join(' and ');
+        return withRetry(() => getProvider().generateDialogueSpeech(`TTS the following conversation between ${names}:\n${line.speaker}: ${line.text}`, speakers));
     }
-    return base64Audio;
+    const voice = speakers.find(({ speaker }) => speaker === line.speaker)?.voice ?? DEFAULT_SPEECH_VOICE;
+    return generateSpeech(line.text, null, voice);
 };
 
 
 // Live Assistant
-export const connectLive = (callbacks: any) => {
-    const ai = getGenAI();
-    return ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks,
-        config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-                voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-            },
-            systemInstruction: 'You are a friendly and helpful AI assistant for a social media creator. Keep your responses concise and conversational.',
-            inputAudioTranscription: {},
-            outputAudioTranscription: {},
-        }
-    });
-}
\ No newline at end of file
+export const DEFAULT_LIVE_VOICE = 'Zephyr';
+export const DEFAULT_LIVE_INSTRUCTION = 'You are a friendly and helpful AI assistant for a social media creator. Keep your responses concise and conversational.';
+
+// Without a persona the assistant uses the default voice and instruction.
+export const connectLive = (
+    callbacks: LiveCallbacks,
+    persona?: Pick<LivePersona, 'voice' | 'systemInstruction'> | null,
+    brandVoice?: BrandVoice | null,
+    tools: FunctionDeclaration[] = [],
+): Promise<LiveSession> => {
+    let instruction = persona?.systemInstruction.trim() || DEFAULT_LIVE_INSTRUCTION;
+    if (tools.length > 0) {
+        instruction += ' You can act in the creator\'s app with the provided tools. Use them only when asked, and briefly say what you did afterwards.';
+    }
+    return withRetry(() => getProvider().connectLive(callbacks, withBrandVoiceInstruction(instruction, brandVoice), persona?.voice ?? DEFAULT_LIVE_VOICE, tools));
+}
@@ -0,0 +1,228 @@
+import { Collection, SavedItem } from '../types';
+import { ZipEntry, createZip, readZip } from '../utils/zipUtils';
+import { extensionForMimeType, slugify } from '../utils/fileUtils';
+import { getMedia } from './libraryStore';
+
+// A library archive is a zip with a `manifest.json` describing every item and
+// collection, plus one file per media item under `media/`. Text items travel
+// inside the manifest.
+
+const ARCHIVE_FORMAT = 'creator-ai-library';
+const ARCHIVE_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+interface ManifestItem extends SavedItem {
+  file?: string; // path of the media file inside the archive
+}
+
+interface Manifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  collections: Collection[];
+  items: ManifestItem[];
+}
+
+export interface ArchiveEntry {
+  item: SavedItem;
+  media?: Blob;
+}
+
+export interface LibraryArchive {
+  exportedAt: string;
+  collections: Collection[];
+  entries: ArchiveEntry[];
+  missingMedia: number; // items skipped because their file was not in the archive
+}
+
+export type ConflictStrategy = 'skip' | 'replace' | 'keep-both';
+
+export interface ImportPlan {
+  archive: LibraryArchive;
+  newEntries: ArchiveEntry[];
+  duplicates: ArchiveEntry[]; // already in the library with the same content and details
+  conflicts: ArchiveEntry[]; // share an id with a library item but differ from it
+}
+
+export class ArchiveFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveFormatError';
+  }
+}
+
+// Readable names help when the archive is opened outside the app.
+export const libraryFileName = (item: SavedItem, mimeType: string): string =>
+  `${slugify(item.prompt) || `creator-ai-${item.type}`}-${item.id.slice(0, 8)}.${extensionForMimeType(mimeType)}`;
+
+export const exportLibrary = async (items: SavedItem[], collections: Collection[]): Promise<{ archive: Blob; skipped: number }> => {
+  const manifestItems: ManifestItem[] = [];
+  const files: { name: string; data: Blob }[] = [];
+  let skipped = 0;
+  for (const item of items) {
+    if (item.type === 'text') {
+      manifestItems.push(item);
+      continue;
+    }
+    const media = await getMedia(item.id);
+    if (!media) {
+      skipped++;
+      continue;
+    }
+    const file = `media/${libraryFileName(item, media.type || item.mimeType || '')}`;
+    manifestItems.push({ ...item, file });
+    files.push({ name: file, data: media });
+  }
+  const manifest: Manifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    collections,
+    items: manifestItems,
+  };
+  const manifestBlob = new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' });
+  return { archive: await createZip([{ name: MANIFEST_NAME, data: manifestBlob }, ...files]), skipped };
+};
+
+const isValidItem = (item: ManifestItem) =>
+  typeof item?.id === 'string'
+  && ['image', 'video', 'audio', 'text'].includes(item.type)
+  && typeof item.prompt === 'string'
+  && typeof item.createdAt === 'string';
+
+export const readLibraryArchive = async (file: Blob): Promise<LibraryArchive> => {
+  let zipEntries: ZipEntry[];
+  try {
+    zipEntries = await readZip(file);
+  } catch (error) {
+    throw new ArchiveFormatError(error instanceof Error ? error.message : 'This file could not be read as a zip archive.');
+  }
+  const manifestEntry = zipEntries.find(entry => entry.name === MANIFEST_NAME);
+  if (!manifestEntry) {
+    throw new ArchiveFormatError('This zip is not a My Library archive: it has no manifest.json.');
+  }
+  let manifest: Manifest;
+  try {
+    manifest = JSON.parse(await manifestEntry.data.text());
+  } catch {
+    throw new ArchiveFormatError('The archive manifest is not valid JSON.');
+  }
+  if (manifest.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.items)) {
+    throw new ArchiveFormatError('This zip is not a My Library archive.');
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new ArchiveFormatError('This archive was made by a newer version of the app.');
+  }
+
+  const files = new Map(zipEntries.map(entry => [entry.name, entry.data]));
+  const entries: ArchiveEntry[] = [];
+  let missingMedia = 0;
+  for (const { file: path, ...item } of manifest.items.filter(isValidItem)) {
+    if (item.type === 'text') {
+      entries.push({ item: { ...item, content: String(item.content ?? '') } });
+      continue;
+    }
+    const data = path ? files.get(path) : undefined;
+    if (!data) {
+      missingMedia++;
+      continue;
+    }
+    const media = data.slice(0, data.size, item.mimeType || '');
+    entries.push({ item: { ...item, content: '', mimeType: media.type || undefined, size: media.size }, media });
+  }
+  return {
+    exportedAt: manifest.exportedAt,
+    collections: Array.isArray(manifest.collections) ? manifest.collections.filter(c => typeof c?.id === 'string' && typeof c.name === 'string') : [],
+    entries,
+    missingMedia,
+  };
+};
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const planImport = async (archive: LibraryArchive, existingItems: SavedItem[], existingCollections: Collection[]): Promise<ImportPlan> => {
+  const existingById = new Map(existingItems.map(item => [item.id, item]));
+  const hashes = new Map<string | Blob, string>();
+  const hashOf = async (key: string | Blob, load: () => Promise<Blob | undefined>) => {
+    if (!hashes.has(key)) {
+      const blob = await load();
+      hashes.set(key, blob ? toHex(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())) : '');
+    }
+    return hashes.get(key)!;
+  };
+
+  // Media is only hashed when sizes already match, so most items are never read.
+  const hasSameContent = async (entry: ArchiveEntry, existing: SavedItem) => {
+    if (entry.item.type !== existing.type) return false;
+    if (existing.type === 'text') return entry.item.content === existing.content;
+    if (!entry.media || entry.media.size !== existing.size) return false;
+    const [incomingHash, existingHash] = await Promise.all([
+      hashOf(entry.media, async () => entry.media),
+      hashOf(existing.id, () => getMedia(existing.id)),
+    ]);
+    return !!incomingHash && incomingHash === existingHash;
+  };
+
+  const collectionName = (id: string | undefined, collections: Collection[]) =>
+    collections.find(c => c.id === id)?.name.toLowerCase() ?? null;
+  const hasSameDetails = (entry: ArchiveEntry, existing: SavedItem) =>
+    entry.item.prompt === existing.prompt
+    && !!entry.item.isFavorite === !!existing.isFavorite
+    && [...(entry.item.tags ?? [])].sort().join() === [...(existing.tags ?? [])].sort().join()
+    && collectionName(entry.item.collectionId, archive.collections) === collectionName(existing.collectionId, existingCollections);
+
+  const plan: ImportPlan = { archive, newEntries: [], duplicates: [], conflicts: [] };
+  for (const entry of archive.entries) {
+    const existing = existingById.get(entry.item.id);
+    if (existing) {
+      const isSame = await hasSameContent(entry, existing) && hasSameDetails(entry, existing);
+      (isSame ? plan.duplicates : plan.conflicts).push(entry);
+      continue;
+    }
+    let isDuplicate = false;
+    for (const candidate of existingItems) {
+      if (await hasSameContent(entry, candidate)) {
+        isDuplicate = true;
+        break;
+      }
+    }
+    (isDuplicate ? plan.duplicates : plan.newEntries).push(entry);
+  }
+  return plan;
+};
+
+// Works out exactly what to write: archive collections are matched to existing
+// ones by id, then by name, and references are rewritten to the ids that end up in the library.
+export const resolveImport = (plan: ImportPlan, strategy: ConflictStrategy, existingCollections: Collection[]) => {
+  const collectionIds = new Map<string, string>();
+  const newCollections: Collection[] = [];
+  for (const collection of plan.archive.collections) {
+    const match = existingCollections.find(c => c.id === collection.id)
+      ?? existingCollections.find(c => c.name.toLowerCase() === collection.name.toLowerCase());
+    collectionIds.set(collection.id, match?.id ?? collection.id);
+    if (!match) newCollections.push(collection);
+  }
+
+  const itemIds = new Map<string, string>();
+  const conflicts = strategy === 'skip' ? [] : plan.conflicts.map(entry => {
+    if (strategy === 'replace') return entry;
+    const copyId = crypto.randomUUID();
+    itemIds.set(entry.item.id, copyId);
+    return { ...entry, item: { ...entry.item, id: copyId } };
+  });
+
+  const entries = [...plan.newEntries, ...conflicts].map(({ item, media }) => {
+    const { collectionId, parentId, ...rest } = item;
+    const resolvedCollectionId = collectionId && collectionIds.get(collectionId);
+    const resolvedParentId = parentId && (itemIds.get(parentId) ?? parentId);
+    return {
+      item: {
+        ...rest,
+        ...(resolvedCollectionId && { collectionId: resolvedCollectionId }),
+        ...(resolvedParentId && { parentId: resolvedParentId }),
+      },
+      media,
+    };
+  });
+  return { entries, collections: newCollections };
+};
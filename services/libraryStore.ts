@@ -0,0 +1,171 @@
+import { Collection, SavedItem } from '../types';
+
+// IndexedDB persistence for My Library. Item metadata lives in the `items`
+// store; image/video bytes live as Blobs in the `media` store under the same
+// id so the list can be loaded without pulling every file into memory.
+// User-defined collections live in their own small store.
+
+const DB_NAME = 'creatorAiLibrary';
+const DB_VERSION = 2;
+const ITEMS_STORE = 'items';
+const MEDIA_STORE = 'media';
+const COLLECTIONS_STORE = 'collections';
+const LEGACY_STORAGE_KEY = 'savedContent';
+
+export class StorageQuotaError extends Error {
+  constructor() {
+    super('Your browser storage is full. Delete some items from My Library to free up space.');
+    this.name = 'StorageQuotaError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+          db.createObjectStore(ITEMS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+          db.createObjectStore(MEDIA_STORE);
+        }
+        if (!db.objectStoreNames.contains(COLLECTIONS_STORE)) {
+          db.createObjectStore(COLLECTIONS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const toStorageError = (error: DOMException | null) =>
+  error?.name === 'QuotaExceededError' ? new StorageQuotaError() : error;
+
+const runTransaction = async <T,>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  body: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    const request = body(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error));
+  });
+};
+
+export const getAllItems = async (): Promise<SavedItem[]> => {
+  const items = await runTransaction<SavedItem[]>([ITEMS_STORE], 'readonly', tx => tx.objectStore(ITEMS_STORE).getAll());
+  return (items ?? []).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const putItem = (item: SavedItem, media?: Blob) =>
+  runTransaction([ITEMS_STORE, MEDIA_STORE], 'readwrite', tx => {
+    tx.objectStore(ITEMS_STORE).put(item);
+    if (media) {
+      tx.objectStore(MEDIA_STORE).put(media, item.id);
+    }
+  });
+
+// Rewrites item metadata only; the media Blobs are left untouched.
+export const updateItems = (items: SavedItem[]) =>
+  runTransaction([ITEMS_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(ITEMS_STORE);
+    items.forEach(item => store.put(item));
+  });
+
+export const deleteItems = (ids: string[]) =>
+  runTransaction([ITEMS_STORE, MEDIA_STORE], 'readwrite', tx => {
+    ids.forEach(id => {
+      tx.objectStore(ITEMS_STORE).delete(id);
+      tx.objectStore(MEDIA_STORE).delete(id);
+    });
+  });
+
+export const getAllCollections = async (): Promise<Collection[]> => {
+  const collections = await runTransaction<Collection[]>([COLLECTIONS_STORE], 'readonly', tx => tx.objectStore(COLLECTIONS_STORE).getAll());
+  return (collections ?? []).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const putCollection = (collection: Collection) =>
+  runTransaction([COLLECTIONS_STORE], 'readwrite', tx => {
+    tx.objectStore(COLLECTIONS_STORE).put(collection);
+  });
+
+// Items in a deleted collection are kept and become unfiled.
+export const deleteCollection = (id: string, orphanedItems: SavedItem[]) =>
+  runTransaction([COLLECTIONS_STORE, ITEMS_STORE], 'readwrite', tx => {
+    tx.objectStore(COLLECTIONS_STORE).delete(id);
+    const items = tx.objectStore(ITEMS_STORE);
+    orphanedItems.forEach(item => items.put(item));
+  });
+
+export const getMedia = async (id: string): Promise<Blob | undefined> =>
+  runTransaction<Blob>([MEDIA_STORE], 'readonly', tx => tx.objectStore(MEDIA_STORE).get(id));
+
+// Wraps a stored Blob in a File so it can be fed to the same code paths as an upload.
+export const getMediaFile = async (id: string): Promise<File | undefined> => {
+  const blob = await getMedia(id);
+  return blob && new File([blob], `library-${id}`, { type: blob.type });
+};
+
+// Turns whatever a tool hands us (data URL, blob: URL or Blob) into a Blob.
+export const toBlob = async (content: string | Blob): Promise<Blob> => {
+  if (content instanceof Blob) return content;
+  const response = await fetch(content);
+  if (!response.ok) {
+    throw new Error(`Could not read media: ${response.statusText}`);
+  }
+  return response.blob();
+};
+
+// One-time move of the old single-key localStorage library into IndexedDB.
+// Videos were stored as blob: URLs that don't survive a reload, so those are
+// dropped when they can no longer be read.
+export const migrateFromLocalStorage = async (): Promise<number> => {
+  const legacyJSON = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!legacyJSON) return 0;
+
+  let legacyItems: SavedItem[];
+  try {
+    legacyItems = JSON.parse(legacyJSON);
+  } catch (error) {
+    console.error("Could not parse saved content from localStorage", error);
+    return 0;
+  }
+
+  let migrated = 0;
+  for (const legacyItem of legacyItems) {
+    try {
+      if (legacyItem.type === 'text') {
+        await putItem(legacyItem);
+      } else {
+        const media = await toBlob(legacyItem.content);
+        await putItem({ ...legacyItem, content: '', mimeType: media.type, size: media.size }, media);
+      }
+      migrated++;
+    } catch (error) {
+      if (error instanceof StorageQuotaError) throw error;
+      console.warn(`Skipping unreadable library item ${legacyItem.id} during migration`, error);
+    }
+  }
+  window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return migrated;
+};
+
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -0,0 +1,159 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import { generateImage, getModelId } from "./geminiService";
+import type { NewSavedItem } from "../contexts/SavedContentContext";
+import { SavedItem } from "../types";
+
+// Actions the Live Assistant can take on the user's behalf. Each tool runs the
+// same service and library calls the matching UI does; the model only sees the
+// declaration and the response object.
+
+export interface LiveToolContext {
+  saveItem: (item: NewSavedItem) => Promise<SavedItem | null>;
+  deleteItem: (id: string) => Promise<void>;
+  getSavedItems: () => SavedItem[];
+}
+
+export interface LiveToolResult {
+  response: Record<string, unknown>; // sent back to the model
+  summary: string; // shown in the transcript
+  itemId?: string; // library item the action created
+}
+
+interface LiveTool {
+  declaration: FunctionDeclaration;
+  activity: string; // shown while the tool runs
+  // Tools that destroy data return the question to ask before they run.
+  confirmation?: (args: Record<string, unknown>, context: LiveToolContext) => string;
+  run: (args: Record<string, unknown>, context: LiveToolContext) => Promise<LiveToolResult>;
+}
+
+const IMAGE_ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+const MAX_CAPTIONS = 10;
+const PREVIEW_LENGTH = 60;
+
+const stringArg = (args: Record<string, unknown>, name: string): string => {
+  const value = args[name];
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`Missing "${name}".`);
+  return value.trim();
+};
+
+const preview = (text: string) => text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+
+const newestFirst = (items: SavedItem[]) => [...items].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+const tools: LiveTool[] = [
+  {
+    declaration: {
+      name: 'generate_image',
+      description: 'Generate an image from a text description and save it to the user\'s library.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          prompt: { type: Type.STRING, description: 'A detailed description of the image.' },
+          aspectRatio: { type: Type.STRING, enum: IMAGE_ASPECT_RATIOS, description: 'Defaults to 1:1.' },
+        },
+        required: ['prompt'],
+      },
+    },
+    activity: 'Generating an image',
+    run: async (args, { saveItem }) => {
+      const prompt = stringArg(args, 'prompt');
+      const aspectRatio = IMAGE_ASPECT_RATIOS.includes(args.aspectRatio as string) ? args.aspectRatio as string : '1:1';
+      const [url] = await generateImage(prompt, aspectRatio);
+      const saved = await saveItem({
+        type: 'image',
+        content: url,
+        prompt,
+        metadata: { tool: 'live-assistant', model: getModelId('image'), aspectRatio },
+      });
+      if (!saved) throw new Error('The image was generated but could not be saved to the library.');
+      return {
+        response: { status: 'saved', itemId: saved.id, aspectRatio },
+        summary: `Generated a ${aspectRatio} image of "${preview(prompt)}" and saved it to My Library.`,
+        itemId: saved.id,
+      };
+    },
+  },
+  {
+    declaration: {
+      name: 'save_idea',
+      description: 'Save a piece of text, such as a content idea or caption, to the user\'s library.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING, description: 'The full text to save.' },
+        },
+        required: ['text'],
+      },
+    },
+    activity: 'Saving to My Library',
+    run: async (args, { saveItem }) => {
+      const text = stringArg(args, 'text');
+      const saved = await saveItem({
+        type: 'text',
+        content: text,
+        prompt: 'Saved from a Live Assistant conversation',
+        metadata: { tool: 'live-assistant', model: getModelId('live') },
+      });
+      if (!saved) throw new Error('The text could not be saved to the library.');
+      return {
+        response: { status: 'saved', itemId: saved.id },
+        summary: `Saved "${preview(text)}" to My Library.`,
+        itemId: saved.id,
+      };
+    },
+  },
+  {
+    declaration: {
+      name: 'get_saved_captions',
+      description: 'Read the most recent text items (captions, ideas, scripts) from the user\'s library, newest first.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          count: { type: Type.INTEGER, description: `How many to return, 1 to ${MAX_CAPTIONS}. Defaults to 3.` },
+        },
+      },
+    },
+    activity: 'Reading saved captions',
+    run: async (args, { getSavedItems }) => {
+      const count = Math.min(MAX_CAPTIONS, Math.max(1, Math.round(Number(args.count) || 3)));
+      const captions = newestFirst(getSavedItems().filter(item => item.type === 'text')).slice(0, count);
+      return {
+        response: { captions: captions.map(item => ({ itemId: item.id, savedAt: item.createdAt, text: item.content })) },
+        summary: captions.length === 0
+          ? 'Looked for saved captions, but the library has no text items.'
+          : `Read ${captions.length} saved caption${captions.length === 1 ? '' : 's'} from My Library.`,
+      };
+    },
+  },
+  {
+    declaration: {
+      name: 'delete_saved_item',
+      description: 'Permanently delete an item from the user\'s library. Use an itemId returned by another tool.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          itemId: { type: Type.STRING },
+        },
+        required: ['itemId'],
+      },
+    },
+    activity: 'Deleting from My Library',
+    confirmation: (args, { getSavedItems }) => {
+      const item = getSavedItems().find(saved => saved.id === args.itemId);
+      return item
+        ? `Delete the ${item.type} "${preview(item.type === 'text' ? item.content : item.prompt)}" from My Library?`
+        : 'Delete an item from My Library?';
+    },
+    run: async (args, { deleteItem, getSavedItems }) => {
+      const itemId = stringArg(args, 'itemId');
+      if (!getSavedItems().some(item => item.id === itemId)) throw new Error('No library item has that id.');
+      await deleteItem(itemId);
+      return { response: { status: 'deleted' }, summary: 'Deleted an item from My Library.' };
+    },
+  },
+];
+
+export const liveToolDeclarations = tools.map(tool => tool.declaration);
+
+export const findLiveTool = (name: string | undefined) => tools.find(tool => tool.declaration.name === name);
@@ -0,0 +1,307 @@
+import { FinishReason, GenerateVideosOperation, GoogleGenAI, Modality, Schema } from "@google/genai";
+import type { GenerateContentResponse, PersonGeneration as SdkPersonGeneration } from "@google/genai";
+import type { AiProvider, MediaPayload } from "../aiProvider";
+import { AiServiceError, classifyError } from "../apiErrors";
+
+const getGenAI = () => {
+  if (!process.env.API_KEY) {
+    throw new AiServiceError('auth', { message: "API_KEY environment variable not set" });
+  }
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+const toInlinePart = (media: MediaPayload) => ({ inlineData: { data: media.base64, mimeType: media.mimeType } });
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+// A blocked prompt or candidate comes back as a normal response with no
+// content, so it has to be detected before reading the output.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const promptBlockReason = response.promptFeedback?.blockReason;
+  if (promptBlockReason) {
+    throw new AiServiceError('safety', { blockReason: promptBlockReason });
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new AiServiceError('safety', { blockReason: finishReason });
+  }
+};
+
+const textOf = (response: GenerateContentResponse) => {
+  assertNotBlocked(response);
+  if (!response.text) {
+    throw new AiServiceError('empty-response');
+  }
+  return response.text;
+};
+
+// Speech comes back as base64 16-bit PCM at 24 kHz.
+const speechFromResponse = (response: GenerateContentResponse) => {
+  assertNotBlocked(response);
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) {
+    throw new AiServiceError('empty-response', { message: 'No audio was generated. Please try again.' });
+  }
+  return base64Audio;
+};
+
+const MODELS: AiProvider['models'] = {
+  fast: 'gemini-flash-lite-latest',
+  advanced: 'gemini-2.5-pro',
+  general: 'gemini-2.5-flash',
+  image: 'imagen-4.0-generate-001',
+  imageEdit: 'gemini-2.5-flash-image',
+  video: 'veo-3.1-fast-generate-preview',
+  speech: 'gemini-2.5-flash-preview-tts',
+  live: 'gemini-2.5-flash-native-audio-preview-09-2025',
+};
+
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  models: MODELS,
+  supportsImageSeed: false,
+
+  generateText: async (prompt, tier) => {
+    const ai = getGenAI();
+    const response = await ai.models.generateContent({
+      model: tier === 'advanced' ? MODELS.advanced : MODELS.fast,
+      contents: prompt,
+    });
+    return textOf(response);
+  },
+
+  generateGroundedText: async (prompt) => {
+    const ai = getGenAI();
+    const response = await ai.models.generateContent({
+      model: MODELS.general,
+      contents: prompt,
+      config: {
+        tools: [{ googleSearch: {} }],
+      },
+    });
+    const text = textOf(response);
+    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    return {
+      text,
+      sources: chunks
+        .filter(chunk => chunk.web?.uri)
+        .map(chunk => ({ web: { uri: chunk.web!.uri!, title: chunk.web!.title ?? '' } })),
+    };
+  },
+
+  generateJson: async <T,>(prompt: string, schema: Schema) => {
+    const ai = getGenAI();
+    const response = await ai.models.generateContent({
+      model: MODELS.general,
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: schema,
+      },
+    });
+    return JSON.parse(textOf(response)) as T;
+  },
+
+  analyzeMedia: async (prompt, media) => {
+    const ai = getGenAI();
+    const response = await ai.models.generateContent({
+      model: MODELS.general,
+      contents: {
+        parts: [toInlinePart(media), { text: prompt }],
+      },
+    });
+    return textOf(response);
+  },
+
+  createChat: (systemInstruction, history) => {
+    const ai = getGenAI();
+    const chat = ai.chats.create({
+      model: MODELS.general,
+      config: { systemInstruction },
+      history: history.map(message => ({ role: message.sender, parts: [{ text: message.text }] })),
+    });
+    return {
+      sendMessageStream: async function* (message, signal) {
+        // A per-request config replaces the chat's config, so the system instruction is repeated here.
+        const stream = await chat.sendMessageStream({ message, config: { systemInstruction, abortSignal: signal } });
+        for await (const chunk of stream) {
+          assertNotBlocked(chunk);
+          if (chunk.text) yield chunk.text;
+        }
+      },
+    };
+  },
+
+  // The Gemini API rejects `seed` and `negativePrompt`, so the seed is left to
+  // the model and the negative prompt is folded into the prompt text.
+  generateImage: async (prompt, aspectRatio, { numberOfImages, negativePrompt, personGeneration }) => {
+    const ai = getGenAI();
+    const response = await ai.models.generateImages({
+      model: MODELS.image,
+      prompt: negativePrompt ? `${prompt}\n\nAvoid: ${negativePrompt}` : prompt,
+      config: {
+        numberOfImages,
+        outputMimeType: 'image/jpeg',
+        aspectRatio: aspectRatio as "1:1" | "3:4" | "4:3" | "9:16" | "16:9",
+        personGeneration: personGeneration as SdkPersonGeneration | undefined,
+        includeRaiReason: true,
+      },
+    });
+    const generated = response.generatedImages ?? [];
+    const images = generated
+      .map(image => image.image?.imageBytes)
+      .filter((bytes): bytes is string => !!bytes)
+      .map(bytes => `data:image/jpeg;base64,${bytes}`);
+    if (images.length === 0) {
+      const blockReason = generated.find(image => image.raiFilteredReason)?.raiFilteredReason;
+      throw blockReason ? new AiServiceError('safety', { blockReason }) : new AiServiceError('empty-response');
+    }
+    return images;
+  },
+
+  editImage: async (prompt, sourceImage, referenceImage, mask) => {
+    const ai = getGenAI();
+    const parts: ({ inlineData: { data: string, mimeType: string } } | { text: string })[] = [toInlinePart(sourceImage)];
+    if (referenceImage) {
+      parts.push(toInlinePart(referenceImage));
+    }
+    if (mask) {
+      parts.push(toInlinePart(mask));
+    }
+    parts.push({ text: prompt });
+
+    const response = await ai.models.generateContent({
+      model: MODELS.imageEdit,
+      contents: { parts },
+      config: {
+        responseModalities: [Modality.IMAGE],
+      },
+    });
+
+    assertNotBlocked(response);
+    const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+    if (part?.inlineData) {
+      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    }
+    throw new AiServiceError('empty-response', { message: "The AI didn't return an edited image. Try describing the change differently." });
+  },
+
+  startVideoGeneration: async (prompt, aspectRatio, image) => {
+    const ai = getGenAI();
+
+    const request: any = {
+      model: MODELS.video,
+      prompt,
+      config: {
+        numberOfVideos: 1,
+        resolution: '720p',
+        aspectRatio: aspectRatio,
+      },
+    };
+
+    if (image) {
+      request.image = {
+        imageBytes: image.base64,
+        mimeType: image.mimeType,
+      };
+    }
+
+    const operation = await ai.models.generateVideos(request);
+    if (!operation.name) {
+      throw new AiServiceError('empty-response', { message: 'Video generation did not return an operation id.' });
+    }
+    return operation.name;
+  },
+
+  getVideoResult: async (operationId) => {
+    const ai = getGenAI();
+    const pending = new GenerateVideosOperation();
+    pending.name = operationId;
+    const operation = await ai.operations.getVideosOperation({ operation: pending });
+    if (!operation.done) {
+      return null;
+    }
+    if (operation.error) {
+      throw classifyError({ message: `Video generation failed: ${String(operation.error.message ?? 'unknown error')}`, status: operation.error.code });
+    }
+
+    const blockReason = operation.response?.raiMediaFilteredReasons?.[0];
+    if (blockReason) {
+      throw new AiServiceError('safety', { blockReason });
+    }
+    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+    if (!downloadLink) {
+      throw new AiServiceError('empty-response', { message: 'Video generation finished without returning a video.' });
+    }
+
+    const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw classifyError({ message: `Failed to download video: ${response.statusText}. ${errorBody}`, status: response.status });
+    }
+    return response.blob();
+  },
+
+  generateSpeech: async (prompt, voice) => {
+    const ai = getGenAI();
+    const response = await ai.models.generateContent({
+      model: MODELS.speech,
+      contents: [{ parts: [{ text: prompt }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: voice },
+          },
+        },
+      },
+    });
+    return speechFromResponse(response);
+  },
+
+  generateDialogueSpeech: async (prompt, speakers) => {
+    const ai = getGenAI();
+    const response = await ai.models.generateContent({
+      model: MODELS.speech,
+      contents: [{ parts: [{ text: prompt }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          multiSpeakerVoiceConfig: {
+            speakerVoiceConfigs: speakers.map(({ speaker, voice }) => ({
+              speaker,
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+            })),
+          },
+        },
+      },
+    });
+    return speechFromResponse(response);
+  },
+
+  connectLive: (callbacks, systemInstruction, voice, tools) => {
+    const ai = getGenAI();
+    return ai.live.connect({
+      model: MODELS.live,
+      callbacks,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+        },
+        systemInstruction,
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        ...(tools.length > 0 && { tools: [{ functionDeclarations: tools }] }),
+      },
+    });
+  },
+};
@@ -0,0 +1,362 @@
+import { Type } from "@google/genai";
+import type { LiveServerMessage, Schema } from "@google/genai";
+import type { AiProvider, ChatSession, LiveSession, MediaPayload } from "../aiProvider";
+import { ChatMessage } from "../../types";
+import { encode } from "../../utils/audioUtils";
+
+// Offline backend used for demos and for working on the UI without an API key.
+// Every response is derived from the input so the same request always yields
+// the same output.
+
+const MOCK_LATENCY_MS = 600;
+const MOCK_STREAM_CHUNK_MS = 60;
+const SPEECH_SAMPLE_RATE = 24000;
+const LIVE_INPUT_SAMPLE_RATE = 16000;
+const LIVE_REPLY_AFTER_SECONDS = 3;
+const MOCK_VIDEO_RENDER_MS = 8000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const pick = <T,>(items: T[], seed: string): T => items[hashString(seed) % items.length];
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c] as string));
+
+const wrapText = (text: string, maxChars: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if ((current + ' ' + word).trim().length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = (current + ' ' + word).trim();
+    }
+  }
+  if (current) lines.push(current);
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] += '…';
+  }
+  return lines;
+};
+
+const dimensionsFor = (aspectRatio: string): [number, number] => {
+  switch (aspectRatio) {
+    case '16:9': return [1024, 576];
+    case '9:16': return [576, 1024];
+    case '4:3': return [1024, 768];
+    case '3:4': return [768, 1024];
+    case '1:1':
+    default: return [1024, 1024];
+  }
+};
+
+const svgToDataUrl = (svg: string) => `data:image/svg+xml;base64,${encode(new TextEncoder().encode(svg))}`;
+
+const renderCaption = (text: string, width: number, height: number) => {
+  const lines = wrapText(text, Math.floor(width / 22), 6);
+  const startY = height / 2 - ((lines.length - 1) * 40) / 2;
+  return lines
+    .map((line, i) => `<text x="${width / 2}" y="${startY + i * 40}" font-family="sans-serif" font-size="32" fill="white" text-anchor="middle">${escapeXml(line)}</text>`)
+    .join('');
+};
+
+const createPlaceholderImage = (prompt: string, aspectRatio: string, seed: number): string => {
+  const [width, height] = dimensionsFor(aspectRatio);
+  const hue = hashString(`${prompt}:${seed}`) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`
+    + `<stop offset="0" stop-color="hsl(${hue},70%,45%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,25%)"/>`
+    + `</linearGradient></defs>`
+    + `<rect width="100%" height="100%" fill="url(#g)"/>`
+    + renderCaption(prompt, width, height)
+    + `<text x="${width - 16}" y="${height - 16}" font-family="sans-serif" font-size="18" fill="rgba(255,255,255,0.7)" text-anchor="end">Offline demo · seed ${seed}</text>`
+    + `</svg>`;
+  return svgToDataUrl(svg);
+};
+
+// With a mask, the tint is confined to the mask's white areas, mirroring an inpainting edit.
+const createEditedImage = (prompt: string, source: MediaPayload, mask?: MediaPayload): string => {
+  const hue = hashString(prompt) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="1024" height="1024" viewBox="0 0 1024 1024">`
+    + (mask ? `<mask id="edit-mask"><image href="data:${mask.mimeType};base64,${mask.base64}" width="1024" height="1024" preserveAspectRatio="xMidYMid slice"/></mask>` : '')
+    + `<image href="data:${source.mimeType};base64,${source.base64}" width="1024" height="1024" preserveAspectRatio="xMidYMid slice"/>`
+    + `<rect width="100%" height="100%" fill="hsla(${hue},80%,50%,${mask ? 0.6 : 0.3})"${mask ? ' mask="url(#edit-mask)"' : ''}/>`
+    + `<rect y="904" width="100%" height="120" fill="rgba(0,0,0,0.5)"/>`
+    + `<text x="512" y="974" font-family="sans-serif" font-size="28" fill="white" text-anchor="middle">${escapeXml(wrapText(prompt, 60, 1)[0] ?? '')}</text>`
+    + `</svg>`;
+  return svgToDataUrl(svg);
+};
+
+const createPlaceholderVideo = (prompt: string, aspectRatio: '16:9' | '9:16'): Promise<Blob> => {
+  const [width, height] = aspectRatio === '16:9' ? [640, 360] : [360, 640];
+  const hue = hashString(prompt) % 360;
+  const durationMs = 3000;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return Promise.reject(new Error("Could not get canvas context."));
+  }
+
+  const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => e.data.size > 0 && chunks.push(e.data);
+
+  return new Promise((resolve) => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+    const startedAt = performance.now();
+    const drawFrame = () => {
+      const elapsed = performance.now() - startedAt;
+      if (elapsed >= durationMs) {
+        recorder.stop();
+        return;
+      }
+      const shift = (hue + (elapsed / durationMs) * 120) % 360;
+      const gradient = ctx.createLinearGradient(0, 0, width, height);
+      gradient.addColorStop(0, `hsl(${shift},70%,45%)`);
+      gradient.addColorStop(1, `hsl(${(shift + 60) % 360},70%,25%)`);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+      ctx.fillStyle = 'white';
+      ctx.font = '20px sans-serif';
+      ctx.textAlign = 'center';
+      wrapText(prompt || 'Offline demo video', Math.floor(width / 12), 5)
+        .forEach((line, i) => ctx.fillText(line, width / 2, height / 2 + i * 26));
+      requestAnimationFrame(drawFrame);
+    };
+    recorder.start();
+    requestAnimationFrame(drawFrame);
+  });
+};
+
+// Produces 16-bit mono PCM: one short tone per word so the output length
+// tracks the length of the text. Each voice gets its own pitch range.
+const synthesizeSpeech = (text: string, sampleRate: number, voice: string = ''): Uint8Array => {
+  const basePitch = voice ? 110 + (hashString(voice) % 100) : 160;
+  const words = text.split(/\s+/).filter(Boolean);
+  const toneSamples = Math.floor(sampleRate * 0.22);
+  const gapSamples = Math.floor(sampleRate * 0.06);
+  const pcm = new Int16Array(Math.max(words.length, 1) * (toneSamples + gapSamples));
+
+  words.forEach((word, w) => {
+    const frequency = basePitch + (hashString(word) % 120);
+    const offset = w * (toneSamples + gapSamples);
+    for (let i = 0; i < toneSamples; i++) {
+      const envelope = Math.sin((Math.PI * i) / toneSamples);
+      pcm[offset + i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * envelope * 0.3 * 32767);
+    }
+  });
+  return new Uint8Array(pcm.buffer);
+};
+
+const TEXT_RESPONSES = [
+  "Here's an idea to get you started: lead with a bold hook, share one relatable moment, and close with a question that invites comments.",
+  "Try a three-part post: the problem your audience has, the moment you figured it out, and the one tip they can use today.",
+  "A behind-the-scenes angle would work well here. Show the messy middle, then the finished result, and tell people what surprised you.",
+  "Keep it short and punchy. One strong sentence, one emoji, and two or three niche hashtags will usually outperform a long caption.",
+];
+
+const mockText = (prompt: string) =>
+  `${pick(TEXT_RESPONSES, prompt)}\n\n(Offline demo response for: "${wrapText(prompt, 80, 1)[0] ?? ''}")`;
+
+// Builds a value that satisfies the requested schema, seeded by the prompt.
+const fromSchema = (schema: Schema, seed: string, key: string = 'value'): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([name, property]) => [name, fromSchema(property, seed, name)])
+      );
+    case Type.ARRAY:
+      return [0, 1, 2].map(i => fromSchema(schema.items ?? { type: Type.STRING }, `${seed}:${i}`, key));
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return hashString(`${seed}:${key}`) % 100;
+    case Type.BOOLEAN:
+      return hashString(`${seed}:${key}`) % 2 === 0;
+    case Type.STRING:
+    default:
+      return schema.enum?.length ? pick(schema.enum, `${seed}:${key}`) : `Demo ${key} ${hashString(`${seed}:${key}`) % 1000}`;
+  }
+};
+
+const createMockChat = (history: ChatMessage[]): ChatSession => {
+  let turn = history.filter(message => message.sender === 'user').length;
+  return {
+    sendMessageStream: async function* (message, signal) {
+      await delay(MOCK_LATENCY_MS);
+      turn += 1;
+      // Stream word by word so the UI's incremental rendering can be exercised offline.
+      for (const word of mockText(`${turn}:${message}`).split(/(?<=\s)/)) {
+        if (signal?.aborted) {
+          throw new DOMException('The operation was aborted.', 'AbortError');
+        }
+        yield word;
+        await delay(MOCK_STREAM_CHUNK_MS);
+      }
+    },
+  };
+};
+
+const connectMockLive: AiProvider['connectLive'] = async (callbacks, _systemInstruction, voice) => {
+  let bufferedSamples = 0;
+  let turn = 0;
+  let closed = false;
+  let hasSeenFrames = false;
+
+  const speak = (text: string) => {
+    const messages = [
+      { serverContent: { outputTranscription: { text } } },
+      { serverContent: { modelTurn: { parts: [{ inlineData: { data: encode(synthesizeSpeech(text, SPEECH_SAMPLE_RATE, voice)), mimeType: 'audio/pcm;rate=24000' } }] } } },
+      { serverContent: { turnComplete: true } },
+    ];
+    messages.forEach(message => callbacks.onmessage(message as LiveServerMessage));
+  };
+
+  const reply = () => {
+    turn += 1;
+    const heard = hasSeenFrames ? 'I heard you speaking and can see your shared video' : 'I heard you speaking';
+    callbacks.onmessage({ serverContent: { inputTranscription: { text: `(Demo) ${heard}, turn ${turn}.` } } } as LiveServerMessage);
+    speak(pick(TEXT_RESPONSES, `live:${turn}`));
+  };
+
+  const session: LiveSession = {
+    sendRealtimeInput: ({ media, audioStreamEnd }) => {
+      // Push-to-talk ends each utterance explicitly instead of waiting for enough audio.
+      if (!closed && audioStreamEnd && bufferedSamples > 0) {
+        bufferedSamples = 0;
+        reply();
+        return;
+      }
+      if (closed || !media || !('data' in media) || !media.data) return;
+      if (media.mimeType?.startsWith('image/')) {
+        hasSeenFrames = true;
+        return;
+      }
+      bufferedSamples += Math.floor((media.data.length * 3) / 4 / 2);
+      if (bufferedSamples >= LIVE_INPUT_SAMPLE_RATE * LIVE_REPLY_AFTER_SECONDS) {
+        bufferedSamples = 0;
+        reply();
+      }
+    },
+    sendToolResponse: ({ functionResponses }) => {
+      if (closed) return;
+      const count = Array.isArray(functionResponses) ? functionResponses.length : 1;
+      speak(`(Demo) Done. I finished ${count === 1 ? 'that action' : `${count} actions`} for you.`);
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      callbacks.onclose(new CloseEvent('close'));
+    },
+  };
+
+  setTimeout(() => callbacks.onopen(), 0);
+  return session;
+};
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  name: 'Offline Demo',
+  models: {
+    fast: 'offline-demo',
+    advanced: 'offline-demo',
+    general: 'offline-demo',
+    image: 'offline-demo',
+    imageEdit: 'offline-demo',
+    video: 'offline-demo',
+    speech: 'offline-demo',
+    live: 'offline-demo',
+  },
+  supportsImageSeed: true,
+
+  generateText: async (prompt) => {
+    await delay(MOCK_LATENCY_MS);
+    return mockText(prompt);
+  },
+
+  generateGroundedText: async (prompt) => {
+    await delay(MOCK_LATENCY_MS);
+    return {
+      text: mockText(prompt),
+      sources: [{ web: { uri: 'https://example.com/offline-demo', title: 'Offline demo source' } }],
+    };
+  },
+
+  generateJson: async <T,>(prompt: string, schema: Schema) => {
+    await delay(MOCK_LATENCY_MS);
+    return fromSchema(schema, prompt) as T;
+  },
+
+  analyzeMedia: async (prompt, media) => {
+    await delay(MOCK_LATENCY_MS);
+    if (media.mimeType.startsWith('audio/')) {
+      return pick(['medium-pitch, moderate, friendly', 'low-pitch, slow, calm', 'high-pitch, fast, energetic'], media.base64.slice(0, 256));
+    }
+    return mockText(prompt);
+  },
+
+  createChat: (_systemInstruction, history) => createMockChat(history),
+
+  // Image i of a batch uses seed + i, so a locked seed reproduces the whole batch.
+  generateImage: async (prompt, aspectRatio, { numberOfImages, seed }) => {
+    await delay(MOCK_LATENCY_MS);
+    const baseSeed = seed ?? Math.floor(Math.random() * 1_000_000);
+    return Array.from({ length: numberOfImages }, (_, i) => createPlaceholderImage(prompt, aspectRatio, baseSeed + i));
+  },
+
+  editImage: async (prompt, sourceImage, _referenceImage, mask) => {
+    await delay(MOCK_LATENCY_MS);
+    return createEditedImage(prompt, sourceImage, mask);
+  },
+
+  // The operation id carries everything needed to render the result, so
+  // polling still works after a reload.
+  startVideoGeneration: async (prompt, aspectRatio) => {
+    await delay(MOCK_LATENCY_MS);
+    // Each field is encoded, since the aspect ratio itself contains ':'.
+    return ['mock-video', aspectRatio, String(Date.now()), prompt].map(encodeURIComponent).join(':');
+  },
+
+  getVideoResult: async (operationId) => {
+    const [, aspectRatio, startedAt, prompt] = operationId.split(':', 4).map(decodeURIComponent);
+    if (Date.now() - Number(startedAt) < MOCK_VIDEO_RENDER_MS) {
+      return null;
+    }
+    return createPlaceholderVideo(prompt ?? '', aspectRatio === '9:16' ? '9:16' : '16:9');
+  },
+
+  generateSpeech: async (prompt, voice) => {
+    await delay(MOCK_LATENCY_MS);
+    return encode(synthesizeSpeech(prompt, SPEECH_SAMPLE_RATE, voice));
+  },
+
+  // Only the labelled lines are spoken, each in its speaker's voice.
+  generateDialogueSpeech: async (prompt, speakers) => {
+    await delay(MOCK_LATENCY_MS);
+    const parts = prompt.split('\n').flatMap(line => {
+      const speaker = speakers.find(s => line.startsWith(`${s.speaker}:`));
+      return speaker ? [synthesizeSpeech(line.slice(speaker.speaker.length + 1), SPEECH_SAMPLE_RATE, speaker.voice)] : [];
+    });
+    const pcm = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    parts.reduce((offset, part) => {
+      pcm.set(part, offset);
+      return offset + part.length;
+    }, 0);
+    return encode(pcm);
+  },
+
+  connectLive: connectMockLive,
+};
@@ -1,8 +1,50 @@
+import type { AiErrorKind } from './services/apiErrors';
 
 export interface ChatMessage {
   sender: 'user' | 'model';
   text: string;
   groundingChunks?: GroundingChunk[];
+  isError?: boolean; // local failure notice, never sent back to the model as history
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: string; // ISO date string
+  updatedAt: string; // ISO date string
+}
+
+// One speaker's part of a Live Assistant turn. Times are milliseconds from the start of the session.
+// 'tool' entries record actions the assistant took in the app.
+export interface TranscriptEntry {
+  speaker: 'user' | 'model' | 'tool';
+  text: string;
+  startMs: number;
+  endMs: number;
+  itemId?: string; // library item a tool action created
+}
+
+// One spoken line of a multi-speaker TTS script, e.g. "HOST: Welcome back!".
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+}
+
+// A timed subtitle line. Times are milliseconds from the start of the audio.
+export interface Caption {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+// A Live Assistant character: the voice it speaks with and how it behaves.
+export interface LivePersona {
+  id: string;
+  name: string;
+  voice: string;
+  systemInstruction: string;
+  createdAt: string; // ISO date string
 }
 
 export interface GroundingChunk {
@@ -16,10 +58,73 @@ export interface GroundingChunk {
     }
 }
 
+// Tools that save to the library; the ids match their routes so an item can reopen its tool.
+export type SourceTool = 'chat' | 'image-gen' | 'image-edit' | 'headshot-gen' | 'video-gen' | 'video-edit' | 'live-assistant' | 'content-analyzer' | 'tts';
+
+// An input an item was made from: a library item when there is one, otherwise just the uploaded file's name.
+export interface AssetRef {
+  itemId?: string;
+  name: string;
+}
+
+export interface GenerationMetadata {
+  tool: SourceTool;
+  model?: string;
+  aspectRatio?: string;
+  seed?: number;
+  voice?: string;
+  analysisType?: string;
+  inputs?: AssetRef[];
+  settings?: Record<string, string | number | boolean>; // tool-specific options, e.g. the video editor's trim range
+}
+
 export interface SavedItem {
   id: string;
-  type: 'image' | 'video' | 'text';
-  content: string; // data URL for image, object URL for video, raw text for text
+  type: 'image' | 'video' | 'audio' | 'text';
+  content: string; // raw text for text; empty for media items, whose bytes are stored separately as a Blob
+  mimeType?: string; // media items only
+  size?: number; // media items only, in bytes
   prompt: string; // The prompt that generated it
   createdAt: string; // ISO date string
+  metadata?: GenerationMetadata; // missing on items saved before settings were recorded
+  parentId?: string; // library item this one was made from
+  tags?: string[]; // lowercase, without a leading '#'
+  collectionId?: string;
+  isFavorite?: boolean; // favorites are pinned to the top of the library
+}
+
+export interface Collection {
+  id: string;
+  name: string;
+  createdAt: string; // ISO date string
+}
+
+export interface BrandVoice {
+  id: string;
+  name: string;
+  tone: string;
+  audience: string;
+  bannedWords: string[];
+  examplePosts: string[];
+  hashtags: string[]; // stored without the leading '#'
+  createdAt: string; // ISO date string
+}
+
+export type JobKind = 'video' | 'headshots';
+export type JobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  prompt: string;
+  providerId: 'gemini' | 'mock'; // backend that owns the operation
+  operationId?: string; // video jobs only, used to resume polling after a reload
+  status: JobStatus;
+  progress?: { completed: number; total: number };
+  error?: string;
+  errorKind?: AiErrorKind;
+  metadata?: GenerationMetadata; // recorded on every item the job saves
+  resultItemIds: string[]; // library items saved from the job's output
+  startedAt: string; // ISO date string
+  finishedAt?: string; // ISO date string
 }
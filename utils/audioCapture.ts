@@ -0,0 +1,142 @@
+// Microphone capture on the audio rendering thread. An AudioWorklet resamples
+// the device's native rate to the rate the caller asks for, converts to 16-bit
+// PCM with clamping, and reports the peak level of each chunk, so capture keeps
+// running smoothly however busy the main thread is.
+
+export interface CaptureChunk {
+    pcm: Int16Array;
+    peak: number; // 0–1, measured on the raw input before resampling
+    clipped: boolean; // some input reached full scale
+}
+
+export interface AudioCaptureOptions {
+    sampleRate?: number;
+    chunkMs?: number;
+    onChunk: (chunk: CaptureChunk) => void;
+}
+
+export interface AudioCapture {
+    sampleRate: number;
+    stop: () => void;
+}
+
+const PROCESSOR_NAME = 'pcm-capture';
+
+// Kept as source text so it can be loaded from a Blob URL without a separate build entry.
+const PROCESSOR_SOURCE = `
+const CLIP_THRESHOLD = 0.999;
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        const { targetSampleRate, chunkSize } = options.processorOptions;
+        this.ratio = sampleRate / targetSampleRate;
+        this.pending = new Float32Array(0);
+        this.position = 0;
+        this.chunkSize = chunkSize;
+        this.chunk = new Int16Array(chunkSize);
+        this.filled = 0;
+        this.peak = 0;
+        this.clipped = false;
+    }
+
+    process(inputs) {
+        const channel = inputs[0] && inputs[0][0];
+        if (!channel) return true;
+
+        for (let i = 0; i < channel.length; i++) {
+            const magnitude = Math.abs(channel[i]);
+            if (magnitude > this.peak) this.peak = magnitude;
+            if (magnitude >= CLIP_THRESHOLD) this.clipped = true;
+        }
+
+        const input = new Float32Array(this.pending.length + channel.length);
+        input.set(this.pending);
+        input.set(channel, this.pending.length);
+
+        // Each output sample averages the input samples it spans, which also acts
+        // as a simple low-pass filter against aliasing when downsampling.
+        let position = this.position;
+        while (position + this.ratio <= input.length) {
+            const start = Math.floor(position);
+            const end = Math.max(start + 1, Math.floor(position + this.ratio));
+            let sum = 0;
+            for (let i = start; i < end; i++) sum += input[i];
+            this.push(sum / (end - start));
+            position += this.ratio;
+        }
+        const consumed = Math.floor(position);
+        this.pending = input.slice(consumed);
+        this.position = position - consumed;
+        return true;
+    }
+
+    push(sample) {
+        const clamped = Math.max(-1, Math.min(1, sample));
+        this.chunk[this.filled++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+        if (this.filled < this.chunkSize) return;
+        this.port.postMessage({ pcm: this.chunk, peak: this.peak, clipped: this.clipped }, [this.chunk.buffer]);
+        this.chunk = new Int16Array(this.chunkSize);
+        this.filled = 0;
+        this.peak = 0;
+        this.clipped = false;
+    }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+// Rejects if microphone access is denied or AudioWorklet is unavailable.
+export const startAudioCapture = async ({ sampleRate = 16000, chunkMs = 100, onChunk }: AudioCaptureOptions): Promise<AudioCapture> => {
+    const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+    });
+    const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const moduleUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'text/javascript' }));
+    try {
+        await context.audioWorklet.addModule(moduleUrl);
+    } catch (err) {
+        stream.getTracks().forEach(track => track.stop());
+        context.close();
+        throw err;
+    } finally {
+        URL.revokeObjectURL(moduleUrl);
+    }
+
+    const source = context.createMediaStreamSource(stream);
+    const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: 1,
+        processorOptions: { targetSampleRate: sampleRate, chunkSize: Math.round((sampleRate * chunkMs) / 1000) },
+    });
+    node.port.onmessage = (event: MessageEvent<CaptureChunk>) => onChunk(event.data);
+    source.connect(node);
+    // The processor writes nothing to its output; connecting it keeps the graph pulling audio through it.
+    node.connect(context.destination);
+
+    let stopped = false;
+    return {
+        sampleRate,
+        stop: () => {
+            if (stopped) return;
+            stopped = true;
+            node.port.onmessage = null;
+            source.disconnect();
+            node.disconnect();
+            stream.getTracks().forEach(track => track.stop());
+            if (context.state !== 'closed') context.close();
+        },
+    };
+};
+
+// Joins captured chunks into one little-endian PCM byte array, e.g. for pcmToWav.
+export const concatPcm = (chunks: Int16Array[]): Uint8Array => {
+    const samples = new Int16Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        samples.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return new Uint8Array(samples.buffer);
+};
@@ -0,0 +1,65 @@
+import { Caption } from '../types';
+import { chunkText } from './speechScript';
+import { formatSrtTimestamp } from './transcriptUtils';
+import { pcmDurationMs } from './wavUtils';
+
+// Two subtitle lines of about 42 characters each.
+const MAX_CUE_CHARS = 84;
+// 16-bit sample magnitude below which audio counts as silence (about -36 dB).
+const SILENCE_THRESHOLD = 500;
+
+export interface CaptionSource {
+    text: string;
+    speaker?: string;
+    startMs: number; // where this audio starts in the whole track
+    pcm: Uint8Array;
+}
+
+// Where speech starts and ends inside a clip, so leading and trailing silence get no caption.
+const speechBounds = (pcm: Uint8Array, sampleRate: number): { startMs: number; endMs: number } => {
+    const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2));
+    let first = 0;
+    while (first < samples.length && Math.abs(samples[first]) < SILENCE_THRESHOLD) first++;
+    let last = samples.length - 1;
+    while (last > first && Math.abs(samples[last]) < SILENCE_THRESHOLD) last--;
+    if (first >= samples.length) return { startMs: 0, endMs: pcmDurationMs(pcm.byteLength, sampleRate) };
+    return { startMs: (first / sampleRate) * 1000, endMs: ((last + 1) / sampleRate) * 1000 };
+};
+
+// Splits each clip's text into sentence-aligned cues and spreads them over the
+// clip's speech in proportion to their length. Each clip is timed exactly; cues
+// within one are an estimate, which is close enough for a steady TTS read.
+export const buildCaptions = (sources: CaptionSource[], sampleRate: number): Caption[] =>
+    sources.flatMap(source => {
+        const bounds = speechBounds(source.pcm, sampleRate);
+        const cues = chunkText(source.text, MAX_CUE_CHARS);
+        const totalChars = cues.reduce((sum, cue) => sum + cue.length, 0);
+        const msPerChar = (bounds.endMs - bounds.startMs) / Math.max(1, totalChars);
+        let offsetMs = source.startMs + bounds.startMs;
+        return cues.map(cue => {
+            const startMs = offsetMs;
+            offsetMs += cue.length * msPerChar;
+            return { startMs: Math.round(startMs), endMs: Math.round(offsetMs), text: source.speaker ? `${source.speaker}: ${cue}` : cue };
+        });
+    });
+
+// "00:01:02.345" as WebVTT requires.
+export const formatVttTimestamp = (ms: number): string => formatSrtTimestamp(ms).replace(',', '.');
+
+export const captionsToSrt = (captions: Caption[]): string =>
+    captions.map((caption, i) => [
+        String(i + 1),
+        `${formatSrtTimestamp(caption.startMs)} --> ${formatSrtTimestamp(caption.endMs)}`,
+        caption.text,
+        '',
+    ].join('\n')).join('\n');
+
+export const captionsToVtt = (captions: Caption[]): string => [
+    'WEBVTT',
+    '',
+    ...captions.map(caption => `${formatVttTimestamp(caption.startMs)} --> ${formatVttTimestamp(caption.endMs)}\n${caption.text}\n`),
+].join('\n');
+
+// The caption showing at a playback position, if any.
+export const captionAt = (captions: Caption[], ms: number): number =>
+    captions.findIndex(caption => ms >= caption.startMs && ms < caption.endMs);
@@ -11,3 +11,61 @@ export const fileToBase64 = (file: File): Promise<string> => {
         reader.onerror = (error) => reject(error);
     });
 };
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB', 'TB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/svg+xml': 'svg',
+    'video/quicktime': 'mov',
+    'audio/mpeg': 'mp3',
+    'audio/wave': 'wav',
+    'audio/x-wav': 'wav',
+    'text/plain': 'txt',
+    'text/markdown': 'md',
+};
+
+// Falls back to the MIME subtype (e.g. "png", "webm"), dropping any codec parameters.
+export const extensionForMimeType = (mimeType: string): string => {
+    const baseType = mimeType.split(';')[0].trim().toLowerCase();
+    return MIME_EXTENSIONS[baseType] ?? baseType.split('/')[1] ?? 'bin';
+};
+
+// Turns free text such as a prompt into a short, filesystem-safe name.
+export const slugify = (text: string, maxLength: number = 40): string =>
+    text.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, maxLength).replace(/^-+|-+$/g, '');
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const link = document.createElement('a');
+    const href = URL.createObjectURL(blob);
+    link.href = href;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(href);
+};
+
+export const fileToDataUrl = async (file: File): Promise<string> =>
+    `data:${file.type};base64,${await fileToBase64(file)}`;
+
+export const dataUrlToPayload = (dataUrl: string): { base64: string; mimeType: string } => {
+    const [header, base64] = dataUrl.split(',');
+    return { base64, mimeType: header.match(/^data:([^;,]+)/)?.[1] ?? 'application/octet-stream' };
+};
+
+// The extension is taken from the data's MIME type.
+export const dataUrlToFile = async (dataUrl: string, baseName: string): Promise<File> => {
+    const blob = await (await fetch(dataUrl)).blob();
+    return new File([blob], `${baseName}.${extensionForMimeType(blob.type)}`, { type: blob.type });
+};
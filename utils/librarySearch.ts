@@ -0,0 +1,106 @@
+import { Collection, SavedItem } from '../types';
+
+// My Library's search box understands facets alongside free text, e.g.
+// `summer in:"Client A" tag:reel type:video is:favorite after:2024-06-01`.
+// The filter controls edit these tokens too, so the box always shows the
+// complete filter.
+
+export type LibrarySort = 'newest' | 'oldest' | 'type' | 'name';
+
+export interface LibraryQuery {
+    text: string[];
+    types: string[];
+    tags: string[];
+    collection?: string; // collection name, or 'unfiled'
+    favoritesOnly: boolean;
+    after?: string; // YYYY-MM-DD, inclusive
+    before?: string; // YYYY-MM-DD, inclusive
+}
+
+interface Token {
+    key?: string;
+    value: string;
+    raw: string;
+}
+
+const FACET_KEYS = ['type', 'tag', 'in', 'is', 'after', 'before'];
+const TOKEN_PATTERN = /(\w+):(?:"([^"]*)"?|(\S*))|"([^"]*)"?|(\S+)/g;
+
+const tokenize = (query: string): Token[] =>
+    Array.from(query.matchAll(TOKEN_PATTERN), match => {
+        const [raw, key, quotedValue, value, quotedText, text] = match;
+        if (key && FACET_KEYS.includes(key.toLowerCase())) {
+            return { key: key.toLowerCase(), value: (quotedValue ?? value ?? '').trim(), raw };
+        }
+        return { value: quotedText ?? text ?? raw, raw };
+    });
+
+export const normalizeTag = (tag: string): string =>
+    tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-');
+
+export const parseLibraryQuery = (query: string): LibraryQuery => {
+    const parsed: LibraryQuery = { text: [], types: [], tags: [], favoritesOnly: false };
+    for (const { key, value } of tokenize(query)) {
+        if (!value) continue;
+        switch (key) {
+            case 'type': parsed.types.push(value.toLowerCase()); break;
+            case 'tag': parsed.tags.push(normalizeTag(value)); break;
+            case 'in': parsed.collection = value; break;
+            case 'is': if (['favorite', 'favourite', 'pinned'].includes(value.toLowerCase())) parsed.favoritesOnly = true; break;
+            case 'after': parsed.after = value; break;
+            case 'before': parsed.before = value; break;
+            default: parsed.text.push(value.toLowerCase());
+        }
+    }
+    return parsed;
+};
+
+export const getQueryFacet = (query: string, key: string): string | undefined =>
+    tokenize(query).find(token => token.key === key)?.value;
+
+// Replaces every token for `key` with a single one, or removes them when value is null.
+export const setQueryFacet = (query: string, key: string, value: string | null): string => {
+    const kept = tokenize(query).filter(token => token.key !== key).map(token => token.raw);
+    if (value) kept.push(`${key}:${/\s/.test(value) ? `"${value}"` : value}`);
+    return kept.join(' ');
+};
+
+// Date inputs work in local days, so compare against the local date an item was saved on.
+const toLocalDay = (isoDate: string): string => {
+    const date = new Date(isoDate);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const matchesLibraryQuery = (item: SavedItem, query: LibraryQuery, collections: Collection[]): boolean => {
+    if (query.favoritesOnly && !item.isFavorite) return false;
+    if (query.types.length > 0 && !query.types.includes(item.type)) return false;
+    if (query.tags.some(tag => !item.tags?.includes(tag))) return false;
+    if (query.collection) {
+        if (query.collection.toLowerCase() === 'unfiled') {
+            if (item.collectionId) return false;
+        } else {
+            const collection = collections.find(c => c.name.toLowerCase() === query.collection!.toLowerCase());
+            if (!collection || item.collectionId !== collection.id) return false;
+        }
+    }
+    const day = toLocalDay(item.createdAt);
+    if (query.after && day < query.after) return false;
+    if (query.before && day > query.before) return false;
+    const haystack = [item.prompt, item.type, ...(item.tags ?? [])].join(' ').toLowerCase();
+    return query.text.every(word => haystack.includes(word));
+};
+
+const TYPE_ORDER: SavedItem['type'][] = ['image', 'video', 'audio', 'text'];
+
+// Favorites stay pinned above everything else whatever the sort.
+export const sortLibraryItems = (items: SavedItem[], sort: LibrarySort): SavedItem[] =>
+    [...items].sort((a, b) => {
+        if (!!a.isFavorite !== !!b.isFavorite) return a.isFavorite ? -1 : 1;
+        switch (sort) {
+            case 'oldest': return a.createdAt.localeCompare(b.createdAt);
+            case 'type': return TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) || b.createdAt.localeCompare(a.createdAt);
+            case 'name': return a.prompt.localeCompare(b.prompt, undefined, { sensitivity: 'base' });
+            case 'newest':
+            default: return b.createdAt.localeCompare(a.createdAt);
+        }
+    });
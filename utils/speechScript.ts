@@ -0,0 +1,81 @@
+import { DialogueLine } from '../types';
+
+// "HOST: Welcome back" — a short label at the start of a line, before the first colon.
+const SPEAKER_LABEL = /^\s*([A-Za-z][\w .'-]{0,23}?)\s*:\s*(.*)$/;
+
+// Splits a script into speaker-labelled lines. Labels are case-insensitive and
+// normalised to upper case; an unlabelled line continues the line above it, and
+// text before the first label has an empty speaker so the editor can flag it.
+export const parseDialogue = (script: string): DialogueLine[] => {
+    const lines: DialogueLine[] = [];
+    for (const raw of script.split('\n')) {
+        if (!raw.trim()) continue;
+        const match = raw.match(SPEAKER_LABEL);
+        if (match) {
+            lines.push({ speaker: match[1].toUpperCase(), text: match[2].trim() });
+        } else if (lines.length > 0) {
+            const last = lines[lines.length - 1];
+            last.text = `${last.text} ${raw.trim()}`.trim();
+        } else {
+            lines.push({ speaker: '', text: raw.trim() });
+        }
+    }
+    return lines.filter(line => line.text);
+};
+
+// Speakers in the order they first speak.
+export const dialogueSpeakers = (lines: DialogueLine[]): string[] =>
+    Array.from(new Set(lines.map(line => line.speaker).filter(Boolean)));
+
+// Stored in item settings as "HOST=Kore;GUEST=Puck", since settings only hold plain values.
+export const formatSpeakerVoices = (voices: Record<string, string>): string =>
+    Object.entries(voices).map(([speaker, voice]) => `${speaker}=${voice}`).join(';');
+
+export const parseSpeakerVoices = (value: string): Record<string, string> =>
+    Object.fromEntries(value.split(';').map(pair => pair.split('=')).filter(pair => pair.length === 2 && pair[0] && pair[1]));
+
+// Long scripts are spoken in pieces; each request stays well inside what the
+// speech model reads out reliably in one go.
+export const MAX_CHUNK_CHARS = 600;
+
+const splitSentences = (text: string): string[] => {
+    if (typeof Intl.Segmenter === 'function') {
+        return Array.from(new Intl.Segmenter(undefined, { granularity: 'sentence' }).segment(text), part => part.segment);
+    }
+    return text.match(/[^.!?]+(?:[.!?]+["')\]]*\s*|$)/g) ?? [text];
+};
+
+// A sentence longer than a whole chunk is split between words as a last resort.
+const splitBetweenWords = (sentence: string, maxChars: number): string[] => {
+    const parts: string[] = [];
+    let current = '';
+    for (const word of sentence.split(/(?<=\s)/)) {
+        if (current && current.length + word.length > maxChars) {
+            parts.push(current);
+            current = '';
+        }
+        current += word;
+    }
+    if (current) parts.push(current);
+    return parts;
+};
+
+// Packs whole sentences into chunks of at most `maxChars`.
+export const chunkText = (text: string, maxChars: number = MAX_CHUNK_CHARS): string[] => {
+    const chunks: string[] = [];
+    let current = '';
+    const sentences = splitSentences(text).flatMap(sentence => sentence.length > maxChars ? splitBetweenWords(sentence, maxChars) : [sentence]);
+    for (const sentence of sentences) {
+        if (current.trim() && current.length + sentence.length > maxChars) {
+            chunks.push(current.trim());
+            current = '';
+        }
+        current += sentence;
+    }
+    if (current.trim()) chunks.push(current.trim());
+    return chunks;
+};
+
+// Paragraphs are separated by blank lines; line breaks inside one are just spaces.
+export const splitParagraphs = (text: string): string[] =>
+    text.split(/\n\s*\n/).map(paragraph => paragraph.replace(/\s+/g, ' ').trim()).filter(Boolean);
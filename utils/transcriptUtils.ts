@@ -0,0 +1,59 @@
+import { TranscriptEntry } from '../types';
+
+export const SPEAKER_LABELS: Record<TranscriptEntry['speaker'], string> = {
+    user: 'You',
+    model: 'AI',
+    tool: 'Action',
+};
+
+// SRT cues need a visible duration even when a line arrived in a single chunk.
+const MIN_CUE_MS = 1000;
+
+const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+// "1:02:03" or "02:03" for display and plain-text transcripts.
+export const formatElapsed = (ms: number): string => {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const clock = `${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}`;
+    return hours > 0 ? `${hours}:${clock}` : clock;
+};
+
+// "00:01:02,345" as SRT requires.
+export const formatSrtTimestamp = (ms: number): string => {
+    const rounded = Math.max(0, Math.round(ms));
+    const hours = Math.floor(rounded / 3_600_000);
+    const minutes = Math.floor(rounded / 60_000) % 60;
+    const seconds = Math.floor(rounded / 1000) % 60;
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${pad(rounded % 1000, 3)}`;
+};
+
+export const transcriptToText = (entries: TranscriptEntry[]): string =>
+    entries.map(entry => `[${formatElapsed(entry.startMs)}] ${SPEAKER_LABELS[entry.speaker]}: ${entry.text}`).join('\n');
+
+export const transcriptToMarkdown = (entries: TranscriptEntry[], startedAt: Date): string => [
+    '# Live Assistant Session',
+    '',
+    `_${startedAt.toLocaleString()}_`,
+    '',
+    ...entries.map(entry => `**${SPEAKER_LABELS[entry.speaker]}** \`${formatElapsed(entry.startMs)}\`  \n${entry.text}\n`),
+].join('\n');
+
+export const transcriptToSrt = (entries: TranscriptEntry[]): string =>
+    entries.map((entry, i) => [
+        String(i + 1),
+        `${formatSrtTimestamp(entry.startMs)} --> ${formatSrtTimestamp(Math.max(entry.endMs, entry.startMs + MIN_CUE_MS))}`,
+        `${SPEAKER_LABELS[entry.speaker]}: ${entry.text}`,
+        '',
+    ].join('\n')).join('\n');
+
+// Cuts a reply down to roughly the share of it that was heard before the user
+// interrupted, ending on a word boundary. Transcription and audio arrive at
+// different rates, so the cut is proportional rather than exact.
+export const truncateSpokenText = (text: string, heardFraction: number): string => {
+    if (heardFraction >= 1) return text;
+    const cut = Math.round(text.length * Math.max(0, heardFraction));
+    const wordEnd = text.lastIndexOf(' ', cut);
+    const kept = text.slice(0, wordEnd > 0 ? wordEnd : cut).trimEnd();
+    return kept ? `${kept}…` : '';
+};
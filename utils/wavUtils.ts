@@ -0,0 +1,56 @@
+// Byte length of `gapMs` of 16-bit mono silence.
+export function gapBytes(gapMs: number, sampleRate: number): number {
+    return Math.round((sampleRate * gapMs) / 1000) * 2;
+}
+
+// Duration of 16-bit mono PCM; a trailing odd byte is not a whole sample.
+export function pcmDurationMs(byteLength: number, sampleRate: number): number {
+    return (Math.floor(byteLength / 2) / sampleRate) * 1000;
+}
+
+// Joins 16-bit PCM segments with `gapMs` of silence between each pair.
+export function joinPcm(segments: Uint8Array[], gapMs: number, sampleRate: number): Uint8Array {
+    const gap = gapBytes(gapMs, sampleRate);
+    // Each segment is trimmed to whole samples so a stray byte can't shift everything after it.
+    const trimmed = segments.map(segment => segment.subarray(0, segment.byteLength - (segment.byteLength % 2)));
+    const total = trimmed.reduce((sum, segment) => sum + segment.byteLength, 0) + gap * Math.max(0, trimmed.length - 1);
+    const joined = new Uint8Array(total);
+    let offset = 0;
+    trimmed.forEach((segment, i) => {
+        if (i > 0) offset += gap;
+        joined.set(segment, offset);
+        offset += segment.byteLength;
+    });
+    return joined;
+}
+
+// Wraps raw little-endian 16-bit PCM (what the TTS and Live models return) in a
+// RIFF/WAVE header so browsers and other apps can play it as a normal file.
+export function pcmToWav(pcm: Uint8Array, sampleRate: number, numChannels: number = 1): Blob {
+    const bitsPerSample = 16;
+    const blockAlign = numChannels * (bitsPerSample / 8);
+    const header = new ArrayBuffer(44);
+    const view = new DataView(header);
+
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) {
+            view.setUint8(offset + i, value.charCodeAt(i));
+        }
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + pcm.byteLength, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true); // fmt chunk size
+    view.setUint16(20, 1, true); // PCM format
+    view.setUint16(22, numChannels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * blockAlign, true); // byte rate
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitsPerSample, true);
+    writeString(36, 'data');
+    view.setUint32(40, pcm.byteLength, true);
+
+    return new Blob([header, pcm], { type: 'audio/wav' });
+}
@@ -0,0 +1,157 @@
+// Minimal ZIP support for library archives. Entries are written uncompressed
+// (media is already compressed and the manifest is small), and reading also
+// accepts deflated entries so archives re-zipped by other tools still import.
+// Zip64 is not supported, which limits an archive to 4 GB.
+
+export interface ZipEntry {
+    name: string;
+    data: Blob;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const dosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const { time, date } = dosDateTime(new Date());
+    const parts: BlobPart[] = [];
+    const centralDirectory: Uint8Array[] = [];
+    let offset = 0;
+
+    // Entries are read one at a time so only a single file is in memory while its CRC is computed.
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const data = new Uint8Array(await entry.data.arrayBuffer());
+        const crc = crc32(data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+        local.setUint16(4, 20, true); // version needed
+        local.setUint16(6, UTF8_FLAG, true);
+        local.setUint16(8, METHOD_STORE, true);
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true); // extra field length
+
+        const central = new Uint8Array(46 + name.length);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+        centralView.setUint16(4, 20, true); // version made by
+        centralView.setUint16(6, 20, true); // version needed
+        centralView.setUint16(8, UTF8_FLAG, true);
+        centralView.setUint16(10, METHOD_STORE, true);
+        centralView.setUint16(12, time, true);
+        centralView.setUint16(14, date, true);
+        centralView.setUint32(16, crc, true);
+        centralView.setUint32(20, data.length, true);
+        centralView.setUint32(24, data.length, true);
+        centralView.setUint16(28, name.length, true);
+        centralView.setUint32(42, offset, true);
+        central.set(name, 46);
+
+        parts.push(local.buffer, name, entry.data);
+        centralDirectory.push(central);
+        offset += 30 + name.length + data.length;
+    }
+
+    const centralSize = centralDirectory.reduce((total, header) => total + header.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralDirectory, end.buffer], { type: 'application/zip' });
+};
+
+const readBytes = async (blob: Blob, start: number, end: number) => new DataView(await blob.slice(start, end).arrayBuffer());
+
+const inflate = (data: Blob): Promise<Blob> =>
+    new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+
+// Returns entries in directory order. Stored file data is sliced lazily from the
+// archive, so large media is not read until it is used.
+export const readZip = async (zip: Blob): Promise<ZipEntry[]> => {
+    // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB.
+    const tailStart = Math.max(0, zip.size - 22 - 0xffff);
+    const tail = await readBytes(zip, tailStart, zip.size);
+    let endOffset = -1;
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+        if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset < 0) {
+        throw new Error('This file is not a valid zip archive.');
+    }
+    const entryCount = tail.getUint16(endOffset + 10, true);
+    const centralSize = tail.getUint32(endOffset + 12, true);
+    const centralOffset = tail.getUint32(endOffset + 16, true);
+
+    const central = await readBytes(zip, centralOffset, centralOffset + centralSize);
+    const decoder = new TextDecoder();
+    const entries: ZipEntry[] = [];
+    let position = 0;
+    for (let i = 0; i < entryCount; i++) {
+        if (central.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error('The zip archive is damaged.');
+        }
+        const method = central.getUint16(position + 10, true);
+        const compressedSize = central.getUint32(position + 20, true);
+        const nameLength = central.getUint16(position + 28, true);
+        const extraLength = central.getUint16(position + 30, true);
+        const commentLength = central.getUint16(position + 32, true);
+        const localOffset = central.getUint32(position + 42, true);
+        const name = decoder.decode(new Uint8Array(central.buffer, central.byteOffset + position + 46, nameLength));
+        position += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue; // directory entry
+
+        const local = await readBytes(zip, localOffset, localOffset + 30);
+        const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const raw = zip.slice(dataStart, dataStart + compressedSize);
+        if (method === METHOD_STORE) {
+            entries.push({ name, data: raw });
+        } else if (method === METHOD_DEFLATE) {
+            entries.push({ name, data: await inflate(raw) });
+        } else {
+            throw new Error(`"${name}" uses an unsupported compression method.`);
+        }
+    }
+    return entries;
+};